@@ -0,0 +1,79 @@
+import { getProviderAdapter } from '@/lib/providers/registry'
+import type { ProxyChatRequest } from '@/lib/providers/types'
+import { validateChatRequest } from '@/lib/server/chat-request'
+import { checkProxyAccess } from '@/lib/server/proxy-access'
+import { getServerProviderConfig } from '@/lib/server/provider-credentials'
+import { describeFetchError, forwardUpstream, jsonError } from '@/lib/server/proxy-response'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Proxy mode chat endpoint. The client sends a provider-neutral request; the
+ * server attaches its own key and endpoint, builds the provider request with
+ * the same adapter the client uses and streams the provider's reply back.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const denied = checkProxyAccess(request)
+  if (denied) {
+    return denied
+  }
+
+  let payload: ProxyChatRequest
+  try {
+    payload = await request.json()
+  } catch (error) {
+    return jsonError(400, 'Request body must be JSON')
+  }
+
+  const problem = validatePayload(payload)
+  if (problem) {
+    return jsonError(400, problem)
+  }
+
+  const config = getServerProviderConfig(payload.provider)
+  if (!config) {
+    return jsonError(400, `Provider "${payload.provider}" is not configured on this server`)
+  }
+  const adapter = getProviderAdapter(config.adapter)
+  if (!adapter) {
+    return jsonError(400, `Unsupported AI provider: ${payload.provider}`)
+  }
+
+  const providerRequest = adapter.buildRequest({
+    baseUrl: config.baseUrl || adapter.defaultBaseUrl,
+    apiKey: config.apiKey,
+    model: payload.model,
+    messages: payload.messages,
+    systemPrompt: payload.systemPrompt || '',
+    temperature: payload.temperature,
+    topP: payload.topP,
+    maxTokens: payload.maxTokens,
+    stream: payload.stream,
+    responseFormat: payload.responseFormat,
+    tools: payload.tools,
+    toolChoice: payload.toolChoice,
+    thinkingBudget: payload.thinkingBudget
+  })
+
+  let upstream: Response
+  try {
+    upstream = await fetch(providerRequest.url, {
+      method: 'POST',
+      headers: providerRequest.headers,
+      body: JSON.stringify(providerRequest.body),
+      // Stop the provider call when the browser disconnects or aborts
+      signal: request.signal,
+      cache: 'no-store'
+    })
+  } catch (error) {
+    return jsonError(502, `Could not reach ${adapter.name}: ${describeFetchError(error)}`)
+  }
+
+  return forwardUpstream(upstream)
+}
+
+function validatePayload(payload: ProxyChatRequest): string | null {
+  if (!payload || typeof payload !== 'object') return 'Missing request body'
+  if (typeof payload.provider !== 'string' || payload.provider === '') return 'provider is required'
+  return validateChatRequest(payload)
+}
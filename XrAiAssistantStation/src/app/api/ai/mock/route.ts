@@ -0,0 +1,195 @@
+import type { MockChatRequest, MockMode } from '@/lib/providers/mock'
+import { getProviderAdapter } from '@/lib/providers/registry'
+import { readServerSentEvents } from '@/lib/providers/sse'
+import type { ProviderAdapter, TokenUsage } from '@/lib/providers/types'
+import {
+  fixtureKey,
+  getMockRecordTarget,
+  isMockHttpError,
+  isMockRecordingEnabled,
+  lastUserPrompt,
+  MockEvent,
+  MockHttpError,
+  mockCompletion,
+  MockReply,
+  mockStreamChunk,
+  readFixture,
+  saveFixture,
+  scriptedReply,
+  streamMockReply,
+  toMockSse,
+  toUsage
+} from '@/lib/server/mock-provider'
+import { validateChatRequest } from '@/lib/server/chat-request'
+import { getServerProviderConfig } from '@/lib/server/provider-credentials'
+import { checkProxyAccess } from '@/lib/server/proxy-access'
+import { describeFetchError, forwardUpstream, jsonError } from '@/lib/server/proxy-response'
+
+export const dynamic = 'force-dynamic'
+
+const SSE_HEADERS = { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache, no-transform' }
+
+/**
+ * Mock provider endpoint. The model id picks the mode: `scripted` answers
+ * from built-in scripts, `replay` streams a recorded fixture and `record`
+ * forwards to the real provider in MOCK_RECORD_PROVIDER, saving its reply as a
+ * fixture while streaming it back. Recording spends the server's keys, so it
+ * needs MOCK_RECORD_ENABLED and passes the same access check as the proxy.
+ */
+export async function POST(request: Request): Promise<Response> {
+  let payload: MockChatRequest
+  try {
+    payload = await request.json()
+  } catch (error) {
+    return jsonError(400, 'Request body must be JSON')
+  }
+  const problem = validateChatRequest(payload)
+  if (problem) {
+    return jsonError(400, problem)
+  }
+  payload = { ...payload, systemPrompt: payload.systemPrompt || '' }
+
+  switch (payload.model as MockMode) {
+    case 'scripted':
+      return respond(scriptedReply(payload), payload, request.signal)
+    case 'replay': {
+      const fixture = await readFixture(fixtureKey(payload.messages))
+      if (!fixture) {
+        return jsonError(404, 'No recorded fixture matches this prompt. Record it with the "Record" mock model first, or use "Scripted".')
+      }
+      return respond(fixture, payload, request.signal)
+    }
+    case 'record': {
+      if (!isMockRecordingEnabled()) {
+        return jsonError(403, 'Recording is disabled. Set MOCK_RECORD_ENABLED=true on the server to record fixtures.')
+      }
+      return checkProxyAccess(request) || record(payload, request.signal)
+    }
+    default:
+      return jsonError(404, `Unknown mock model "${payload.model}"; use scripted, replay or record`)
+  }
+}
+
+function respond(reply: MockReply | MockHttpError, payload: MockChatRequest, signal: AbortSignal): Response {
+  if (isMockHttpError(reply)) {
+    const headers: Record<string, string> = reply.retryAfterSeconds ? { 'Retry-After': String(reply.retryAfterSeconds) } : {}
+    return Response.json({ error: { type: reply.type, message: reply.message } }, { status: reply.status, headers })
+  }
+  if (!payload.stream) {
+    // Without a stream to break off, a scripted stream error becomes an overloaded response
+    return reply.streamError
+      ? Response.json({ error: reply.streamError }, { status: 503 })
+      : Response.json(mockCompletion(reply, payload.model))
+  }
+  return new Response(streamMockReply(reply, payload.model, signal), { headers: SSE_HEADERS })
+}
+
+async function record(payload: MockChatRequest, signal: AbortSignal): Promise<Response> {
+  const target = getMockRecordTarget()
+  if (!target) {
+    return jsonError(400, 'Set MOCK_RECORD_PROVIDER and MOCK_RECORD_MODEL on the server to record fixtures')
+  }
+  const config = getServerProviderConfig(target.provider)
+  const adapter = config ? getProviderAdapter(config.adapter) : undefined
+  if (!config || !adapter) {
+    return jsonError(400, `Provider "${target.provider}" is not configured on this server`)
+  }
+
+  let upstream: Response
+  try {
+    const providerRequest = adapter.buildRequest({
+      ...payload,
+      baseUrl: config.baseUrl || adapter.defaultBaseUrl,
+      apiKey: config.apiKey,
+      model: target.model,
+      // Always stream so the fixture keeps the provider's timing
+      stream: true
+    })
+    upstream = await fetch(providerRequest.url, {
+      method: 'POST',
+      headers: providerRequest.headers,
+      body: JSON.stringify(providerRequest.body),
+      signal,
+      cache: 'no-store'
+    })
+  } catch (error) {
+    return jsonError(502, `Could not reach ${adapter.name}: ${describeFetchError(error)}`)
+  }
+  if (!upstream.ok) {
+    return forwardUpstream(upstream)
+  }
+
+  const saveReply = (reply: MockReply) => saveFixture({
+    ...reply,
+    version: 1,
+    key: fixtureKey(payload.messages),
+    prompt: lastUserPrompt(payload.messages),
+    provider: target.provider,
+    model: target.model,
+    recordedAt: new Date().toISOString()
+  })
+
+  if (!payload.stream) {
+    try {
+      const reply = await collectReply(upstream, adapter, () => undefined)
+      await saveReply(reply)
+      return Response.json(mockCompletion(reply, payload.model))
+    } catch (error) {
+      return jsonError(502, `${adapter.name} stream failed: ${describeFetchError(error)}`)
+    }
+  }
+
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) => controller.enqueue(encoder.encode(toMockSse(data)))
+      try {
+        const reply = await collectReply(upstream, adapter, event => send(mockStreamChunk(payload.model, event)))
+        // Only complete replies become fixtures
+        await saveReply(reply)
+        send({ ...mockStreamChunk(payload.model, {}, reply.finishReason), usage: reply.usage })
+        send('[DONE]')
+      } catch (error) {
+        if (signal.aborted) return
+        send({ error: { type: 'api_error', message: `${adapter.name} stream failed: ${describeFetchError(error)}` } })
+      }
+      controller.close()
+    }
+  })
+  return new Response(stream, { headers: SSE_HEADERS })
+}
+
+/**
+ * Reads the provider's stream with its own adapter, timing each piece of text
+ * and tool call.
+ */
+async function collectReply(upstream: Response, adapter: ProviderAdapter, onEvent: (event: MockEvent) => void): Promise<MockReply> {
+  const events: MockEvent[] = []
+  let usage: Partial<TokenUsage> = {}
+  let finishReason = 'stop'
+  let last = Date.now()
+
+  await readServerSentEvents(upstream, (data) => {
+    const result = adapter.parseStreamChunk(data)
+    if (!result) return true
+
+    if (result.content || result.reasoning || result.toolCalls) {
+      const now = Date.now()
+      const event: MockEvent = { delayMs: now - last, content: result.content, reasoning: result.reasoning, toolCalls: result.toolCalls }
+      last = now
+      events.push(event)
+      onEvent(event)
+    }
+    if (result.usage) usage = { ...usage, ...result.usage }
+    if (result.finishReason) finishReason = result.finishReason
+    return !result.done
+  })
+
+  return {
+    events,
+    finishReason,
+    usage: usage.prompt_tokens !== undefined || usage.completion_tokens !== undefined
+      ? toUsage(usage.prompt_tokens || 0, usage.completion_tokens || 0)
+      : undefined
+  }
+}
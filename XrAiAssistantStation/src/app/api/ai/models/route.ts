@@ -0,0 +1,43 @@
+import { getProviderAdapter } from '@/lib/providers/registry'
+import { checkProxyAccess } from '@/lib/server/proxy-access'
+import { getServerProviderConfig } from '@/lib/server/provider-credentials'
+import { describeFetchError, forwardUpstream, jsonError } from '@/lib/server/proxy-response'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Proxy mode model discovery: `GET /api/ai/models?provider=together` returns
+ * the provider's raw list-models response for the client adapter to parse.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const denied = checkProxyAccess(request)
+  if (denied) {
+    return denied
+  }
+
+  const providerId = new URL(request.url).searchParams.get('provider') || ''
+
+  const config = getServerProviderConfig(providerId)
+  if (!config) {
+    return jsonError(400, `Provider "${providerId}" is not configured on this server`)
+  }
+  const adapter = getProviderAdapter(config.adapter)
+  if (!adapter?.buildListModelsRequest) {
+    return jsonError(400, `${adapter?.name || providerId} does not support model discovery`)
+  }
+
+  const listRequest = adapter.buildListModelsRequest(config.baseUrl || adapter.defaultBaseUrl, config.apiKey)
+  let upstream: Response
+  try {
+    upstream = await fetch(listRequest.url, {
+      method: 'GET',
+      headers: listRequest.headers,
+      signal: request.signal,
+      cache: 'no-store'
+    })
+  } catch (error) {
+    return jsonError(502, `Could not reach ${adapter.name}: ${describeFetchError(error)}`)
+  }
+
+  return forwardUpstream(upstream)
+}
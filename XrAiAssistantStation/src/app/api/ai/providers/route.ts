@@ -0,0 +1,18 @@
+import { checkSameOrigin, isProxyEnabled } from '@/lib/server/proxy-access'
+import { listServerProviders, ServerProxyStatus } from '@/lib/server/provider-credentials'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Which providers have server-side credentials, so the settings panel can
+ * show what proxy mode will be able to reach. Reports no keys, so it does not
+ * need the access token.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const denied = checkSameOrigin(request)
+  if (denied) {
+    return denied
+  }
+  const status: ServerProxyStatus = { enabled: isProxyEnabled(), providers: listServerProviders() }
+  return Response.json(status)
+}
@@ -1,34 +1,43 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { ChatInterface } from '@/components/chat/chat-interface'
+import { ConversationHistory } from '@/components/chat/conversation-history'
 import { PlaygroundView } from '@/components/playground/playground-view'
 import { SettingsPanel } from '@/components/settings/settings-panel'
+import { SearchPanel } from '@/components/search/search-panel'
 import { Header } from '@/components/layout/header'
 import { BottomNavigation } from '@/components/layout/bottom-navigation'
 import { useAppStore } from '@/store/app-store'
+import { restoreAttachmentImages } from '@/lib/attachment-store'
 
 export default function Home() {
   const { currentView } = useAppStore()
   const [showSettings, setShowSettings] = useState(false)
+  const [showSearch, setShowSearch] = useState(false)
+
+  // The saved chat keeps attachments without their images, which load from IndexedDB
+  useEffect(() => {
+    restoreAttachmentImages()
+  }, [])
 
-  const renderCurrentView = () => {
-    switch (currentView) {
-      case 'chat':
-        return <ChatInterface />
-      case 'playground':
-        return <PlaygroundView />
-      default:
-        return <ChatInterface />
-    }
-  }
 
   return (
     <div className="flex flex-col h-screen bg-white dark:bg-gray-900">
-      <Header onOpenSettings={() => setShowSettings(true)} />
+      <Header onOpenSettings={() => setShowSettings(true)} onOpenSearch={() => setShowSearch(true)} />
       
+      {/* Both views stay mounted so a generation keeps streaming and the agent can
+          run the scene while the other tab is showing */}
       <main className="flex-1 overflow-hidden">
-        {renderCurrentView()}
+        <div className={currentView === 'playground' ? 'hidden' : 'flex h-full'}>
+          <ConversationHistory />
+          <div className="flex-1 min-w-0">
+            <ChatInterface />
+          </div>
+        </div>
+        <div className={currentView === 'playground' ? 'h-full' : 'hidden'}>
+          <PlaygroundView />
+        </div>
       </main>
       
       <BottomNavigation />
@@ -36,6 +45,10 @@ export default function Home() {
       {showSettings && (
         <SettingsPanel onClose={() => setShowSettings(false)} />
       )}
+
+      {showSearch && (
+        <SearchPanel onClose={() => setShowSearch(false)} />
+      )}
     </div>
   )
 }
\ No newline at end of file
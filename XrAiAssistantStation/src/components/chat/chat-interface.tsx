@@ -1,17 +1,53 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { Send, Loader2, Code, Copy, Download } from 'lucide-react'
-import { useAppStore } from '@/store/app-store'
-import { AIService } from '@/lib/ai-service'
-import { extractCodeFromMessage, copyToClipboard, downloadTextFile } from '@/lib/utils'
+import { Send, Loader2, Square, ImagePlus, Camera, X, Columns, Reply } from 'lucide-react'
+import { AIModel, AIProvider, ChatMessage as ChatMessageType, Library3D, ModelTarget, useAppStore } from '@/store/app-store'
+import { AIService, GenerateOptions, isAbortError, TokenUsage } from '@/lib/ai-service'
+import { AGENT_INSTRUCTIONS, runAgentLoop } from '@/lib/agent-loop'
+import { saveAttachmentImages } from '@/lib/attachment-store'
+import { getErrorGuidance, RateLimitError } from '@/lib/ai-errors'
+import { ACCEPTED_IMAGE_TYPES, ImageAttachment, MAX_ATTACHMENTS, readImageFile, supportsImageInput, toDataUrl } from '@/lib/attachments'
+import { calculateCost, formatCost, getSpend, getExceededSpendLimit, summarizeUsage } from '@/lib/usage-cost'
+import { getProviderAdapter } from '@/lib/providers/registry'
+import { ProviderAdapter } from '@/lib/providers/types'
+import {
+  CodeFile,
+  extractCodeFiles,
+  FILENAME_HINT_INSTRUCTIONS,
+  formatCodeFilesMarkdown,
+  getEntryFile,
+  parseCodeFilesPayload,
+  parseFencedCodeFiles,
+  STRUCTURED_OUTPUT_INSTRUCTIONS
+} from '@/lib/code-files'
+import { buildEditHunks, diffToEditHunks, EDIT_FORMAT_INSTRUCTIONS, parseCodePatch } from '@/lib/code-patch'
+import { getBranchMessages, getThreadReplies } from '@/lib/conversation-context'
+import { buildUserPrompt, getPromptTemplates } from '@/lib/prompt-templates'
+import { joinReasoning, splitReasoning } from '@/lib/reasoning'
+import { captureSceneScreenshot } from '@/lib/scene-capture'
+import { formatSceneErrors } from '@/lib/scene-tools'
+import { copyToClipboard, downloadTextFile, generateId } from '@/lib/utils'
 import { ChatMessage } from './chat-message'
+import { CompareGroup } from './compare-group'
+import { CompareTargets, MIN_COMPARE_TARGETS } from './compare-targets'
+import { MessageThread } from './message-thread'
 import toast from 'react-hot-toast'
 
+interface ResolvedModelTarget {
+  provider: AIProvider
+  model: AIModel
+  adapter: ProviderAdapter
+}
+
 export function ChatInterface() {
   const {
     messages,
     addMessage,
+    updateMessage,
+    removeMessage,
+    spendLog,
+    recordSpend,
     isLoading,
     setLoading,
     settings,
@@ -19,128 +55,592 @@ export function ChatInterface() {
     getCurrentProvider,
     getCurrentModel,
     setCurrentCode,
-    setCurrentView
+    setCodeFiles,
+    proposeCodeEdit,
+    setCurrentView,
+    providers,
+    updateSettings,
+    chooseComparisonReply,
+    startBranch,
+    switchBranch,
+    focusedMessageId,
+    clearFocusedMessage
   } = useAppStore()
   
   const [input, setInput] = useState('')
+  const [attachments, setAttachments] = useState<ImageAttachment[]>([])
+  const [isCapturing, setIsCapturing] = useState(false)
+  // Answer the next prompt is a thread reply to, and the threads shown open
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [expandedThreads, setExpandedThreads] = useState<string[]>([])
+  // Briefly outlined after a jump from search
+  const [highlightedId, setHighlightedId] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const aiService = AIService.getInstance()
 
   useEffect(() => {
+    // A jump to an earlier message does its own scrolling
+    if (useAppStore.getState().focusedMessageId) return
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
+  // Opens the thread a focused message is in, then scrolls to it once rendered
+  useEffect(() => {
+    if (!focusedMessageId) return
+    const threadParentId = messages.find(message => message.id === focusedMessageId)?.threadParentId
+    if (threadParentId) {
+      setExpandedThreads(current => current.indexOf(threadParentId) === -1 ? [...current, threadParentId] : current)
+    }
+    const timer = setTimeout(() => {
+      document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ block: 'center' })
+      setHighlightedId(focusedMessageId)
+      clearFocusedMessage()
+    }, 50)
+    return () => clearTimeout(timer)
+  }, [focusedMessageId, messages, clearFocusedMessage])
+
+  useEffect(() => {
+    if (!highlightedId) return
+    const timer = setTimeout(() => setHighlightedId(null), 2000)
+    return () => clearTimeout(timer)
+  }, [highlightedId])
+
+  // Cancel any in-flight generation when the chat unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const isSpendLimitReached = () => {
+    const exceededLimit = getExceededSpendLimit(settings, useAppStore.getState().spendLog)
+    if (exceededLimit) {
+      toast.error(
+        `${exceededLimit.period === 'daily' ? 'Daily' : 'Monthly'} spend limit reached ` +
+        `(${formatCost(exceededLimit.spent)} of ${formatCost(exceededLimit.limit)}). Raise it in Settings to continue.`
+      )
+    }
+    return !!exceededLimit
+  }
+
+  // The template for the message's intent wraps it when it is sent; the chat shows what was typed
+  const templatePrompt = (text: string) => {
+    const { currentCode, sceneErrors } = useAppStore.getState()
+    return buildUserPrompt(text, {
+      templates: getPromptTemplates(settings.promptTemplates),
+      library: getCurrentLibrary(),
+      currentCode,
+      errors: formatSceneErrors(sceneErrors)
+    })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!input.trim() || isLoading) return
+    if ((!input.trim() && attachments.length === 0) || isLoading || isSpendLimitReached()) return
+
+    // A reply target left behind by a conversation switch is ignored
+    const threadParentId = useAppStore.getState().messages.some(message => message.id === replyTo) ? replyTo || undefined : undefined
+    if (threadParentId && settings.compareMode) {
+      toast.error('Compare mode works on the main conversation; turn it off to reply in a thread')
+      return
+    }
+
+    // The next prompt has to know which compared reply it follows
+    if (!threadParentId && hasUnchosenComparison(getBranchMessages(useAppStore.getState().messages))) {
+      toast.error('Pick the reply to continue with before sending another message')
+      return
+    }
+
+    const provider = getCurrentProvider()
+    const model = getCurrentModel()
+    const adapter = provider ? getProviderAdapter(provider.adapter) : undefined
+    const imageInput = supportsImageInput(model, adapter)
+    const compareTargets = settings.compareMode ? resolveModelTargets(settings.compareTargets) : []
+    if (settings.compareMode && compareTargets.length < MIN_COMPARE_TARGETS) {
+      toast.error(`Pick at least ${MIN_COMPARE_TARGETS} models to compare`)
+      return
+    }
+
+    // Keep the draft and its images so the user can switch to a vision model
+    if (attachments.length > 0) {
+      const blindModels = settings.compareMode
+        ? compareTargets.filter(target => !supportsImageInput(target.model, target.adapter)).map(target => target.model.name)
+        : imageInput ? [] : [model?.name || 'This model']
+      if (blindModels.length > 0) {
+        toast.error(`${blindModels.join(', ')} cannot read images. Choose vision models such as GPT-4o or Claude, or remove the attachments.`)
+        return
+      }
+    }
 
     const userMessage = input.trim()
     setInput('')
+    setAttachments([])
+    setReplyTo(null)
+
+    const { intent, prompt } = templatePrompt(userMessage)
     
     // Add user message
     addMessage({
       role: 'user',
-      content: userMessage
+      content: userMessage,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      intent,
+      threadParentId
     })
+    saveAttachmentImages(attachments)
+
+    if (settings.compareMode) {
+      await runComparison(prompt, compareTargets)
+      return
+    }
 
+    // Earlier turns of the branch give the model context; only the latest turn is sent through its template
+    const history = getBranchMessages(useAppStore.getState().messages, threadParentId)
+    history[history.length - 1] = { ...history[history.length - 1], content: prompt }
+    await generateReply(history, { threadParentId })
+  }
+
+  /**
+   * Streams the selected model's reply to `history`, whose last turn is the
+   * templated prompt. `branchFrom` puts the reply in place of that message as
+   * a new version instead of appending it.
+   */
+  const generateReply = async (
+    history: ChatMessageType[],
+    options: { threadParentId?: string; branchFrom?: string; skipCache?: boolean } = {}
+  ) => {
+    const { threadParentId, branchFrom } = options
     const provider = getCurrentProvider()
     const model = getCurrentModel()
     const library = getCurrentLibrary()
+    const adapter = provider ? getProviderAdapter(provider.adapter) : undefined
+    const imageInput = supportsImageInput(model, adapter)
+    const { currentCode } = useAppStore.getState()
 
     if (!provider || !model) {
       toast.error('Please configure AI provider and model in settings')
       return
     }
 
-    const apiKey = settings.apiKeys[provider.id]
-    if (!apiKey || apiKey.trim() === '') {
+    // In proxy mode the server holds the keys
+    const apiKey = settings.apiKeys[provider.id] || ''
+    const keyOptional = settings.connectionMode === 'proxy' || adapter?.capabilities.optionalApiKey
+    if (!keyOptional && apiKey.trim() === '') {
       toast.error(`Please set your ${provider.name} API key in settings`)
       return
     }
 
     setLoading(true)
 
-    try {
-      // Build enhanced prompt with library context
-      let enhancedPrompt = userMessage
-      
-      if (library) {
-        enhancedPrompt = `${library.systemPrompt}\n\nUser request: ${userMessage}`
-        
-        // Add library context
-        enhancedPrompt += `\n\nLibrary: ${library.name} v${library.version}`
-        enhancedPrompt += `\nDescription: ${library.description}`
-        
-        // Add code template if generating new code
-        if (userMessage.toLowerCase().includes('create') || userMessage.toLowerCase().includes('make') || userMessage.toLowerCase().includes('generate')) {
-          enhancedPrompt += `\n\nUse this as a starting template:\n\`\`\`javascript\n${library.codeTemplate}\n\`\`\``
-        }
-      }
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    let assistantMessageId: string | null = null
+    let streamedContent = ''
+    // Reasoning from provider fields; <think> blocks are split out of streamedContent
+    let streamedReasoning = ''
+    // Agent mode edits the playground through tools instead of returning code blocks
+    const agent = settings.agentMode && !!adapter?.capabilities.toolCalling
+    // Structured replies stream JSON, which is only shown once it is complete
+    const structured = !agent && settings.structuredOutput && !!adapter?.capabilities.structuredOutput
 
+    try {
       // Add placeholder for streaming response
-      const assistantMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      addMessage({
+      const placeholder: Omit<ChatMessageType, 'id' | 'timestamp'> = {
         role: 'assistant',
         content: '',
         library: library?.id,
-        hasCode: false
-      })
-
-      let streamedContent = ''
+        hasCode: false,
+        provider: provider.id,
+        model: model.id,
+        threadParentId
+      }
+      assistantMessageId = branchFrom ? startBranch(branchFrom, placeholder) : addMessage(placeholder)
+      const messageId = assistantMessageId
       
-      await aiService.generateStreamingResponse(enhancedPrompt, {
+      const requestOptions: GenerateOptions = {
         provider: provider.id,
+        adapter: provider.adapter,
+        baseUrl: provider.baseUrl,
         model: model.id,
         apiKey,
+        connection: settings.connectionMode,
+        proxyToken: settings.proxyAccessToken,
         temperature: settings.temperature,
         topP: settings.topP,
-        systemPrompt: settings.systemPrompt
-      }, (chunk) => {
+        systemPrompt: buildSystemPrompt(library, agent ? 'agent' : structured ? 'structured' : 'text', currentCode, settings.systemPrompt),
+        contextWindow: model.contextWindow,
+        thinkingBudget: settings.thinkingBudget,
+        imageInput,
+        responseFormat: structured ? 'code-files' : 'text',
+        cache: settings.responseCache && !options.skipCache,
+        signal: abortController.signal,
+        onRetry: ({ attempt, delayMs, error }) => {
+          const reason = error instanceof RateLimitError ? 'Rate limited' : 'Provider unavailable'
+          toast(`${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})`, { icon: '⏳' })
+        }
+      }
+
+      if (agent) {
+        const result = await runAgentLoop(history, { ...requestOptions, maxSteps: settings.maxAgentSteps }, {
+          onText: (delta) => {
+            streamedContent += delta
+            const parts = splitReasoning(streamedContent)
+            updateMessage(messageId, { content: parts.answer, reasoning: joinReasoning(streamedReasoning, parts.reasoning) || undefined })
+          },
+          onReasoning: (delta) => {
+            streamedReasoning += delta
+            updateMessage(messageId, { reasoning: joinReasoning(streamedReasoning, splitReasoning(streamedContent).reasoning) })
+          },
+          onStepsChange: (toolSteps) => updateMessage(messageId, { toolSteps })
+        })
+        recordUsage(messageId, provider, model, result.usage, result.finishReason)
+        updateMessage(messageId, { hasCode: parseFencedCodeFiles(splitReasoning(streamedContent).answer).length > 0 })
+        if (result.steps.length > 0) {
+          toast.success(`Agent finished after ${result.steps.length} tool call${result.steps.length === 1 ? '' : 's'}`)
+        }
+        return
+      }
+
+      await aiService.generateStreamingResponse(history, requestOptions, (chunk) => {
         if (!chunk.done) {
           streamedContent += chunk.content
+          streamedReasoning += chunk.reasoning || ''
+          const parts = splitReasoning(streamedContent)
+          const reasoning = joinReasoning(streamedReasoning, parts.reasoning) || undefined
           
-          // Update the last message with streamed content
-          const updatedMessages = [...useAppStore.getState().messages]
-          const lastMessageIndex = updatedMessages.length - 1
-          if (lastMessageIndex >= 0 && updatedMessages[lastMessageIndex].role === 'assistant') {
-            updatedMessages[lastMessageIndex] = {
-              ...updatedMessages[lastMessageIndex],
-              content: streamedContent,
-              hasCode: extractCodeFromMessage(streamedContent) !== null
-            }
-            useAppStore.setState({ messages: updatedMessages })
-          }
+          // Update the assistant message with streamed content
+          updateMessage(messageId, structured
+            ? { content: parts.answer ? `_Generating files… (${parts.answer.length.toLocaleString()} characters)_` : '', reasoning }
+            : { content: parts.answer, reasoning, hasCode: parseFencedCodeFiles(parts.answer).length > 0 })
+        } else {
+          // Attach final token usage reported by the provider
+          recordUsage(messageId, provider, model, chunk.usage, chunk.finishReason)
+          if (chunk.cached) updateMessage(messageId, { cached: true })
         }
       })
 
-      // Final update
-      const hasCode = extractCodeFromMessage(streamedContent) !== null
+      // Final update: render structured payloads as Markdown and keep the parsed files
+      const reply = finalizeReply(streamedContent, streamedReasoning)
+      updateMessage(messageId, { ...reply, hasCode: reply.files.length > 0 })
 
-      // Auto-extract and set code if found
-      if (hasCode) {
-        const extractedCode = extractCodeFromMessage(streamedContent)
-        if (extractedCode) {
-          setCurrentCode(extractedCode)
-          toast.success('Code extracted and ready to run!')
-        }
+      // Code goes to review in the playground rather than straight into the editor
+      const outcome = sendReplyCode(reply.content, reply.files, messageId)
+      if (outcome === 'review') {
+        toast.success('Proposed changes are ready for review in the playground')
+      } else if (outcome === 'loaded') {
+        toast.success(reply.files.length > 1
+          ? `${reply.files.length} files extracted and ready to run!`
+          : 'Code extracted and ready to run!')
       }
 
     } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever streamed so far and flag it, instead of showing an error bubble
+        if (assistantMessageId) {
+          updateMessage(assistantMessageId, { ...finalizeReply(streamedContent, streamedReasoning), interrupted: true })
+        }
+        toast('Generation stopped')
+        return
+      }
+
       console.error('AI API Error:', error)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
       
-      addMessage({
-        role: 'assistant',
-        content: `Sorry, I encountered an error: ${errorMessage}\n\nPlease check your API key and try again.`
-      })
+      const errorContent = `Sorry, I encountered an error: ${errorMessage}\n\n${getErrorGuidance(error)}`
+      
+      // Keep any partial output or tool steps, but drop an empty streaming placeholder.
+      // A new version becomes the error bubble instead, since it holds the other versions.
+      const placeholder = useAppStore.getState().messages.find(m => m.id === assistantMessageId)
+      const emptyPlaceholder = !streamedContent && !streamedReasoning && !placeholder?.toolSteps?.length
+      if (assistantMessageId && emptyPlaceholder && branchFrom) {
+        updateMessage(assistantMessageId, { content: errorContent, isError: true })
+      } else {
+        if (assistantMessageId && emptyPlaceholder) removeMessage(assistantMessageId)
+        addMessage({ role: 'assistant', content: errorContent, isError: true, threadParentId })
+      }
       
       toast.error(`AI Error: ${errorMessage}`)
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
       setLoading(false)
     }
   }
 
+  const recordUsage = (
+    messageId: string,
+    provider: AIProvider,
+    model: AIModel,
+    usage: TokenUsage | undefined,
+    finishReason: string | undefined
+  ) => {
+    if (usage) {
+      const cost = calculateCost(usage, model.cost)
+      updateMessage(messageId, { usage, cost })
+      if (cost !== undefined && cost > 0) {
+        recordSpend({ timestamp: Date.now(), cost, provider: provider.id, model: model.id })
+      }
+    }
+
+    if (finishReason === 'length') {
+      toast(`${model.name}'s response was cut off at the max token limit`, { icon: '⚠️' })
+    }
+  }
+
+  const resolveModelTargets = (targets: ModelTarget[]): ResolvedModelTarget[] => {
+    const { providers } = useAppStore.getState()
+    return targets.reduce<ResolvedModelTarget[]>((resolved, target) => {
+      const provider = providers.find(p => p.id === target.provider)
+      const model = provider?.models.find(m => m.id === target.model)
+      const adapter = provider ? getProviderAdapter(provider.adapter) : undefined
+      if (provider && model && adapter) resolved.push({ provider, model, adapter })
+      return resolved
+    }, [])
+  }
+
+  /**
+   * Streams the same prompt, history and library context to every target at
+   * once, each into its own column. Nothing is sent to the playground until
+   * the user does so from a column; agent mode does not apply, since the
+   * models would edit the same scene concurrently.
+   */
+  const runComparison = async (prompt: string, targets: ResolvedModelTarget[]) => {
+    const library = getCurrentLibrary()
+    const { currentCode } = useAppStore.getState()
+    const history = getBranchMessages(useAppStore.getState().messages)
+    history[history.length - 1] = { ...history[history.length - 1], content: prompt }
+
+    setLoading(true)
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const groupId = generateId()
+    const startedAt = Date.now()
+
+    const runTarget = async ({ provider, model, adapter }: ResolvedModelTarget) => {
+      const messageId = addMessage({
+        role: 'assistant',
+        content: '',
+        library: library?.id,
+        provider: provider.id,
+        model: model.id,
+        comparison: { groupId }
+      })
+      let streamedContent = ''
+      let streamedReasoning = ''
+      let firstTokenMs: number | undefined
+      const finish = (updates: Partial<ChatMessageType>) => updateMessage(messageId, {
+        ...updates,
+        comparison: { groupId, firstTokenMs, totalMs: Date.now() - startedAt }
+      })
+
+      const apiKey = settings.apiKeys[provider.id] || ''
+      if (settings.connectionMode !== 'proxy' && !adapter.capabilities.optionalApiKey && apiKey.trim() === '') {
+        finish({ content: `Set your ${provider.name} API key in settings to include ${model.name}.`, isError: true })
+        return
+      }
+      const structured = settings.structuredOutput && adapter.capabilities.structuredOutput
+
+      try {
+        await aiService.generateStreamingResponse(history, {
+          provider: provider.id,
+          adapter: provider.adapter,
+          baseUrl: provider.baseUrl,
+          model: model.id,
+          apiKey,
+          connection: settings.connectionMode,
+          proxyToken: settings.proxyAccessToken,
+          temperature: settings.temperature,
+          topP: settings.topP,
+          systemPrompt: buildSystemPrompt(library, structured ? 'structured' : 'text', currentCode, settings.systemPrompt),
+          contextWindow: model.contextWindow,
+          thinkingBudget: settings.thinkingBudget,
+          imageInput: supportsImageInput(model, adapter),
+          responseFormat: structured ? 'code-files' : 'text',
+          cache: settings.responseCache,
+          signal: abortController.signal,
+          onRetry: ({ attempt, delayMs }) => {
+            toast(`${model.name}: retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})`, { icon: '⏳' })
+          }
+        }, (chunk) => {
+          if (chunk.done) {
+            recordUsage(messageId, provider, model, chunk.usage, chunk.finishReason)
+            if (chunk.cached) updateMessage(messageId, { cached: true })
+            return
+          }
+          if (firstTokenMs === undefined) firstTokenMs = Date.now() - startedAt
+          streamedContent += chunk.content
+          streamedReasoning += chunk.reasoning || ''
+          const parts = splitReasoning(streamedContent)
+          const reasoning = joinReasoning(streamedReasoning, parts.reasoning) || undefined
+          updateMessage(messageId, structured
+            ? { content: parts.answer ? `_Generating files… (${parts.answer.length.toLocaleString()} characters)_` : '', reasoning }
+            : { content: parts.answer, reasoning, hasCode: parseFencedCodeFiles(parts.answer).length > 0 })
+        })
+
+        const reply = finalizeReply(streamedContent, streamedReasoning)
+        finish({ ...reply, hasCode: reply.files.length > 0 })
+      } catch (error) {
+        if (isAbortError(error)) {
+          finish({ ...finalizeReply(streamedContent, streamedReasoning), interrupted: true })
+          return
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+        finish({ content: `Sorry, I encountered an error: ${errorMessage}\n\n${getErrorGuidance(error)}`, isError: true })
+      }
+    }
+
+    try {
+      await Promise.all(targets.map(runTarget))
+      if (abortController.signal.aborted) {
+        toast('Generation stopped')
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
+      setLoading(false)
+    }
+  }
+
+  const handleChooseReply = (message: ChatMessageType) => {
+    chooseComparisonReply(message.id)
+    const { getCurrentModel: currentModel } = useAppStore.getState()
+    toast.success(`Continuing with ${currentModel()?.name || message.model}`)
+  }
+
+  /**
+   * Sends an edited prompt as a new version of the message; the original and
+   * the replies it got stay reachable as a branch.
+   */
+  const handleEditMessage = async (message: ChatMessageType, content: string) => {
+    if (!content.trim() || isLoading || isSpendLimitReached()) return
+    const compareTargets = settings.compareMode ? resolveModelTargets(settings.compareTargets) : []
+    if (settings.compareMode && compareTargets.length < MIN_COMPARE_TARGETS) {
+      toast.error(`Pick at least ${MIN_COMPARE_TARGETS} models to compare`)
+      return
+    }
+
+    const { intent, prompt } = templatePrompt(content.trim())
+    startBranch(message.id, { role: 'user', content: content.trim(), attachments: message.attachments, intent })
+
+    if (settings.compareMode) {
+      await runComparison(prompt, compareTargets)
+      return
+    }
+    const history = getBranchMessages(useAppStore.getState().messages)
+    history[history.length - 1] = { ...history[history.length - 1], content: prompt }
+    await generateReply(history)
+  }
+
+  // Asks the selected model again; the cache is skipped so the reply is a fresh one
+  const handleRegenerate = async (message: ChatMessageType) => {
+    if (isLoading || isSpendLimitReached()) return
+    const { messages } = useAppStore.getState()
+    const history = getBranchMessages(messages.slice(0, messages.findIndex(m => m.id === message.id)))
+    const prompt = history[history.length - 1]
+    if (prompt?.role !== 'user') return
+
+    history[history.length - 1] = { ...prompt, content: templatePrompt(prompt.content).prompt }
+    await generateReply(history, { branchFrom: message.id, skipCache: true })
+  }
+
+  const handleSwitchVersion = (message: ChatMessageType, index: number) => {
+    const restoresCode = message.versions?.branches[index]?.code !== useAppStore.getState().currentCode
+    switchBranch(message.id, index)
+    if (restoresCode) {
+      toast.success('Playground code restored for this version')
+    }
+  }
+
+  const handleToggleCompare = () => {
+    if (settings.compareMode) {
+      updateSettings({ compareMode: false })
+      return
+    }
+    // Start with the selected model and one from another provider
+    const current: ModelTarget = { provider: settings.selectedProvider, model: settings.selectedModel }
+    const targets = settings.compareTargets.length >= MIN_COMPARE_TARGETS ? settings.compareTargets : [current]
+    if (targets.length < MIN_COMPARE_TARGETS) {
+      const other = providers.find(p => p.id !== current.provider && p.models.length > 0)
+        || providers.find(p => p.models.some(m => m.id !== current.model))
+      const otherModel = other?.models.find(m => other.id !== current.provider || m.id !== current.model)
+      if (other && otherModel) targets.push({ provider: other.id, model: otherModel.id })
+    }
+    updateSettings({ compareMode: true, compareTargets: targets })
+  }
+
+  const handleReply = (messageId: string) => {
+    setReplyTo(messageId)
+    setExpandedThreads(current => current.indexOf(messageId) === -1 ? [...current, messageId] : current)
+    inputRef.current?.focus()
+  }
+
+  const toggleThread = (messageId: string) => {
+    setExpandedThreads(current => current.indexOf(messageId) === -1
+      ? [...current, messageId]
+      : current.filter(id => id !== messageId))
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+    useAppStore.getState().autoFixController?.abort()
+  }
+
+  const addAttachments = (added: ImageAttachment[]) => {
+    const room = MAX_ATTACHMENTS - attachments.length
+    if (added.length > room) {
+      toast.error(`Up to ${MAX_ATTACHMENTS} images can be attached to a message`)
+    }
+    if (room > 0) {
+      setAttachments(current => [...current, ...added.slice(0, room)])
+    }
+  }
+
+  const attachImageFiles = async (files: File[]) => {
+    const results = await Promise.allSettled(files.map(readImageFile))
+    const added: ImageAttachment[] = []
+    results.forEach(result => {
+      if (result.status === 'fulfilled') {
+        added.push(result.value)
+      } else {
+        toast.error(result.reason instanceof Error ? result.reason.message : 'Failed to read image')
+      }
+    })
+    addAttachments(added)
+  }
+
+  const handleImageInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    // Allow picking the same file again
+    e.target.value = ''
+    if (files.length > 0) {
+      attachImageFiles(files)
+    }
+  }
+
+  // Pasted images (e.g. from a screenshot tool) are attached; text pastes as usual
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (!currentImageInput) return
+    const files = Array.from(e.clipboardData.files).filter(file => ACCEPTED_IMAGE_TYPES.includes(file.type))
+    if (files.length > 0) {
+      e.preventDefault()
+      attachImageFiles(files)
+    }
+  }
+
+  const handleAttachScreenshot = async () => {
+    setIsCapturing(true)
+    try {
+      addAttachments([await captureSceneScreenshot()])
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to capture the scene')
+    } finally {
+      setIsCapturing(false)
+    }
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -148,14 +648,78 @@ export function ChatInterface() {
     }
   }
 
-  const handleCodeExtract = (content: string) => {
-    const code = extractCodeFromMessage(content)
-    if (code) {
-      setCurrentCode(code)
-      setCurrentView('playground')
-      toast.success('Code sent to playground!')
-    } else {
+  /**
+   * Single files replace the editor contents; multi-file replies load as a
+   * file set whose entry file is what the renderer runs.
+   */
+  const loadFilesIntoPlayground = (files: CodeFile[]) => {
+    if (files.length === 1) {
+      setCodeFiles([])
+      setCurrentCode(files[0].content)
+      return
+    }
+    setCodeFiles(files, getEntryFile(files, getCurrentLibrary()?.id)?.path)
+  }
+
+  /**
+   * Edit blocks become a patch to review; complete files are diffed against
+   * the editor and reviewed the same way. An empty editor takes new code
+   * directly.
+   */
+  const sendReplyCode = (content: string, files: CodeFile[], messageId?: string): 'review' | 'loaded' | 'none' => {
+    const { currentCode } = useAppStore.getState()
+    const entry = getEntryFile(files, getCurrentLibrary()?.id)
+
+    const patch = parseCodePatch(content)
+    if (patch.length > 0) {
+      proposeCodeEdit({
+        source: 'patch',
+        messageId,
+        baseCode: currentCode,
+        hunks: buildEditHunks(currentCode, patch),
+        fallbackCode: entry?.content
+      })
+      return 'review'
+    }
+
+    if (!entry) return 'none'
+    if (!currentCode.trim()) {
+      loadFilesIntoPlayground(files)
+      return 'loaded'
+    }
+
+    const hunks = diffToEditHunks(currentCode, entry.content)
+    if (hunks.length === 0) {
+      loadFilesIntoPlayground(files)
+      return 'loaded'
+    }
+
+    const multiFile = files.length > 1
+    proposeCodeEdit({
+      source: 'replacement',
+      messageId,
+      baseCode: currentCode,
+      hunks,
+      files: multiFile ? files : undefined,
+      entryPath: multiFile ? entry.path : undefined
+    })
+    return 'review'
+  }
+
+  const getMessageFiles = (message: ChatMessageType): CodeFile[] =>
+    message.files || extractCodeFiles(message.content)
+
+  const handleCodeExtract = (message: ChatMessageType) => {
+    const files = getMessageFiles(message)
+    const outcome = sendReplyCode(splitReasoning(message.content).answer, files, message.id)
+    if (outcome === 'none') {
       toast.error('No code found in this message')
+      return
+    }
+
+    setCurrentView('playground')
+    if (outcome === 'loaded') {
+      toast.success(files.length > 1 ? `${files.length} files sent to playground!` : 'Code sent to playground!')
     }
   }
 
@@ -168,20 +732,33 @@ export function ChatInterface() {
     }
   }
 
-  const handleDownloadCode = (content: string) => {
-    const code = extractCodeFromMessage(content)
-    if (code) {
+  const handleDownloadCode = (message: ChatMessageType) => {
+    const files = getMessageFiles(message)
+    if (files.length === 0) {
+      toast.error('No code found to download')
+      return
+    }
+
+    if (files.length === 1 && files[0].path.startsWith('untitled')) {
       const library = getCurrentLibrary()
       const extension = library?.id === 'react-three-fiber' ? 'jsx' : 'js'
-      downloadTextFile(code, `scene.${extension}`)
-      toast.success('Code downloaded!')
+      downloadTextFile(files[0].content, `scene.${extension}`)
     } else {
-      toast.error('No code found to download')
+      files.forEach(file => downloadTextFile(file.content, file.path.split('/').pop() || file.path))
     }
+    toast.success(files.length > 1 ? `${files.length} files downloaded!` : 'Code downloaded!')
   }
 
   const currentLibrary = getCurrentLibrary()
   const currentModel = getCurrentModel()
+  const currentProvider = getCurrentProvider()
+  const currentImageInput = supportsImageInput(currentModel, currentProvider ? getProviderAdapter(currentProvider.adapter) : undefined)
+  const imageButtonTitle = currentImageInput ? undefined : `${currentModel?.name || 'This model'} does not accept images`
+  // The Sandpack preview is cross-origin and cannot be captured
+  const canCaptureScene = currentLibrary?.id !== 'react-three-fiber'
+  const replyParent = replyTo ? messages.find(message => message.id === replyTo) : undefined
+  const conversationUsage = summarizeUsage(messages)
+  const todaySpend = getSpend(spendLog, 'daily')
 
   return (
     <div className="flex flex-col h-full">
@@ -213,21 +790,53 @@ export function ChatInterface() {
           </div>
         ) : (
           <>
-            {messages.map((message) => (
-              <ChatMessage
-                key={message.id}
-                message={message}
-                onExtractCode={() => handleCodeExtract(message.content)}
-                onCopy={() => handleCopyMessage(message.content)}
-                onDownload={() => handleDownloadCode(message.content)}
+            {groupComparisons(getBranchMessages(messages)).map((item, index, items) => Array.isArray(item) ? (
+              <CompareGroup
+                key={item[0].comparison?.groupId}
+                replies={item}
+                providers={providers}
+                isStreaming={isLoading}
+                onChoose={handleChooseReply}
+                onExtractCode={handleCodeExtract}
+                onCopy={(message) => handleCopyMessage(message.content)}
+                onDownload={handleDownloadCode}
               />
+            ) : (
+              <div key={item.id} className="space-y-2">
+                <div
+                  id={`message-${item.id}`}
+                  className={`rounded-lg transition-shadow ${highlightedId === item.id ? 'ring-2 ring-yellow-400' : ''}`}
+                >
+                  <ChatMessage
+                    message={item}
+                    onExtractCode={() => handleCodeExtract(item)}
+                    onCopy={() => handleCopyMessage(item.content)}
+                    onDownload={() => handleDownloadCode(item)}
+                    onReply={item.role === 'assistant' && !item.isError && !isLoading ? () => handleReply(item.id) : undefined}
+                    onEdit={item.role === 'user' && !isLoading ? (content) => handleEditMessage(item, content) : undefined}
+                    onRegenerate={!isLoading && answersPrompt(items, index) ? () => handleRegenerate(item) : undefined}
+                    onSwitchVersion={isLoading ? undefined : (version) => handleSwitchVersion(item, version)}
+                  />
+                </div>
+                <MessageThread
+                  replies={getThreadReplies(messages, item.id)}
+                  expanded={expandedThreads.indexOf(item.id) !== -1}
+                  highlightedId={highlightedId}
+                  isActive={replyParent?.id === item.id}
+                  onToggle={() => toggleThread(item.id)}
+                  onReply={() => handleReply(item.id)}
+                  onExtractCode={handleCodeExtract}
+                  onCopy={(message) => handleCopyMessage(message.content)}
+                  onDownload={handleDownloadCode}
+                />
+              </div>
             ))}
             
             {isLoading && (
               <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
                 <Loader2 size={16} className="animate-spin" />
                 <span className="text-sm">
-                  {currentModel?.name} is thinking...
+                  {settings.compareMode ? 'Models are' : `${currentModel?.name} is`} thinking...
                 </span>
               </div>
             )}
@@ -238,14 +847,103 @@ export function ChatInterface() {
 
       {/* Input */}
       <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+        {settings.compareMode && (
+          <CompareTargets
+            targets={settings.compareTargets}
+            providers={providers}
+            onChange={(compareTargets) => updateSettings({ compareTargets })}
+          />
+        )}
+
+        {replyParent && (
+          <div className="flex items-center gap-2 mb-2 px-3 py-1.5 text-xs rounded-lg bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200">
+            <Reply size={12} className="flex-shrink-0" />
+            <span className="flex-1 truncate">
+              Replying in thread to: {splitReasoning(replyParent.content).answer.slice(0, 120) || 'answer'}
+            </span>
+            <button
+              type="button"
+              onClick={() => setReplyTo(null)}
+              className="p-0.5 hover:bg-blue-100 dark:hover:bg-blue-800/50 rounded"
+              title="Back to the main conversation"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        )}
+
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {attachments.map(attachment => (
+              <div key={attachment.id} className="relative group">
+                <img
+                  src={toDataUrl(attachment)}
+                  alt={attachment.name}
+                  title={attachment.name}
+                  className={`h-16 w-16 object-cover rounded border ${
+                    currentImageInput ? 'border-gray-300 dark:border-gray-600' : 'border-red-500 opacity-60'
+                  }`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setAttachments(current => current.filter(item => item.id !== attachment.id))}
+                  className="absolute -top-1.5 -right-1.5 p-0.5 bg-gray-800 text-white rounded-full"
+                  title="Remove image"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            {!currentImageInput && (
+              <p className="self-center text-xs text-red-600 dark:text-red-400">
+                {currentModel?.name || 'This model'} cannot read images; choose a vision model or remove them.
+              </p>
+            )}
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="flex items-end space-x-3">
+          <div className="flex flex-col space-y-1">
+            <button
+              type="button"
+              onClick={() => imageInputRef.current?.click()}
+              disabled={isLoading || !currentImageInput || attachments.length >= MAX_ATTACHMENTS}
+              className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title={imageButtonTitle || 'Attach images'}
+            >
+              <ImagePlus size={18} />
+            </button>
+            <button
+              type="button"
+              onClick={handleAttachScreenshot}
+              disabled={isLoading || isCapturing || !currentImageInput || !canCaptureScene || attachments.length >= MAX_ATTACHMENTS}
+              className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title={imageButtonTitle || (canCaptureScene
+                ? 'Attach a screenshot of the current scene'
+                : 'The React Three Fiber preview cannot be captured')}
+            >
+              {isCapturing ? <Loader2 size={18} className="animate-spin" /> : <Camera size={18} />}
+            </button>
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept={ACCEPTED_IMAGE_TYPES.join(',')}
+              multiple
+              onChange={handleImageInputChange}
+              className="hidden"
+            />
+          </div>
+
           <div className="flex-1 relative">
             <textarea
               ref={inputRef}
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder={`Ask me to create a 3D scene with ${currentLibrary?.name || '3D library'}...`}
+              onPaste={handlePaste}
+              placeholder={replyParent
+                ? 'Ask a follow-up about this answer...'
+                : `Ask me to create a 3D scene with ${currentLibrary?.name || '3D library'}...`}
               className="w-full p-3 pr-12 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               rows={Math.min(Math.max(input.split('\n').length, 1), 4)}
               disabled={isLoading}
@@ -260,25 +958,140 @@ export function ChatInterface() {
             )}
           </div>
           
-          <button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {isLoading ? (
-              <Loader2 size={20} className="animate-spin" />
-            ) : (
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="p-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+              title="Stop generating"
+            >
+              <Square size={20} />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim() && attachments.length === 0}
+              className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
               <Send size={20} />
-            )}
-          </button>
+            </button>
+          )}
         </form>
         
-        {currentModel && (
-          <div className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">
-            Using {currentModel.name} • Temperature: {settings.temperature} • Top-p: {settings.topP}
+        <div className="mt-2 flex items-center justify-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+          {settings.compareMode ? (
+            <span>Comparing {settings.compareTargets.length} models • Temperature: {settings.temperature} • Top-p: {settings.topP}</span>
+          ) : currentModel && (
+            <span>Using {currentModel.name} • Temperature: {settings.temperature} • Top-p: {settings.topP}</span>
+          )}
+          <button
+            type="button"
+            onClick={handleToggleCompare}
+            disabled={isLoading}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded transition-colors disabled:opacity-50 ${
+              settings.compareMode
+                ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            title="Send the next prompt to several models side by side"
+          >
+            <Columns size={12} />
+            <span>Compare models</span>
+          </button>
+        </div>
+
+        {conversationUsage.totalTokens > 0 && (
+          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 text-center">
+            Conversation: {conversationUsage.totalTokens.toLocaleString()} tokens • {formatCost(conversationUsage.cost)}
+            {' '}• Today: {formatCost(todaySpend)}
+            {settings.dailySpendLimit !== null && ` of ${formatCost(settings.dailySpendLimit)}`}
           </div>
         )}
       </div>
     </div>
   )
+}
+
+/**
+ * The system prompt for a request: library instructions first, then the
+ * output format for the mode, then the user's own instructions.
+ */
+function buildSystemPrompt(
+  library: Library3D | undefined,
+  mode: 'agent' | 'structured' | 'text',
+  currentCode: string,
+  customInstructions: string
+): string {
+  const parts: string[] = []
+
+  if (library) {
+    parts.push(library.systemPrompt)
+    parts.push(`Library: ${library.name} v${library.version}\nDescription: ${library.description}`)
+  }
+
+  parts.push(mode === 'agent'
+    ? AGENT_INSTRUCTIONS
+    : mode === 'structured' ? STRUCTURED_OUTPUT_INSTRUCTIONS : FILENAME_HINT_INSTRUCTIONS)
+
+  // Patches need the code they apply to; the agent reads it through its tools instead
+  if (mode !== 'agent' && currentCode.trim()) {
+    if (mode === 'text') {
+      parts.push(EDIT_FORMAT_INSTRUCTIONS)
+    }
+    parts.push(`Current playground code:\n\`\`\`javascript\n${currentCode}\n\`\`\``)
+  }
+
+  if (customInstructions.trim()) {
+    parts.push(customInstructions.trim())
+  }
+
+  return parts.join('\n\n')
+}
+
+/**
+ * Collects the replies of each compare round into one array, keeping every
+ * other message on its own.
+ */
+function groupComparisons(messages: ChatMessageType[]): Array<ChatMessageType | ChatMessageType[]> {
+  const items: Array<ChatMessageType | ChatMessageType[]> = []
+  messages.forEach(message => {
+    const previous = items[items.length - 1]
+    if (message.comparison && Array.isArray(previous) && previous[0].comparison?.groupId === message.comparison.groupId) {
+      previous.push(message)
+    } else {
+      items.push(message.comparison ? [message] : message)
+    }
+  })
+  return items
+}
+
+// An assistant message right after the prompt it answers, so it can be regenerated
+function answersPrompt(items: Array<ChatMessageType | ChatMessageType[]>, index: number): boolean {
+  const item = items[index]
+  const previous = items[index - 1]
+  return !Array.isArray(item) && item.role === 'assistant' && !!previous && !Array.isArray(previous) && previous.role === 'user'
+}
+
+// A finished compare round with a usable reply that nobody picked yet
+function hasUnchosenComparison(messages: ChatMessageType[]): boolean {
+  const last = messages[messages.length - 1]
+  if (!last?.comparison) return false
+  const round = messages.filter(message => message.comparison?.groupId === last.comparison?.groupId)
+  return !round.some(message => message.comparison?.chosen) && round.some(message => !message.isError)
+}
+
+/**
+ * Turns the raw reply into what the chat stores: reasoning is split off, a
+ * structured payload becomes Markdown plus its files, and anything else keeps
+ * its text and has its fenced blocks parsed.
+ */
+function finalizeReply(raw: string, providerReasoning: string): { content: string; files: CodeFile[]; reasoning?: string } {
+  const { reasoning, answer } = splitReasoning(raw)
+  const allReasoning = joinReasoning(providerReasoning, reasoning) || undefined
+
+  const payload = parseCodeFilesPayload(answer)
+  if (payload) {
+    return { content: formatCodeFilesMarkdown(payload), files: payload.files, reasoning: allReasoning }
+  }
+  return { content: answer, files: parseFencedCodeFiles(answer), reasoning: allReasoning }
 }
\ No newline at end of file
@@ -1,8 +1,15 @@
 'use client'
 
-import { Bot, User, Code, Copy, Download, ExternalLink } from 'lucide-react'
+import { useState } from 'react'
+import { Bot, User, Code, Copy, Download, ExternalLink, Files, Wrench, Loader2, Brain, Archive, Reply, Pencil, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react'
 import { ChatMessage as ChatMessageType } from '@/store/app-store'
-import { formatTimestamp, extractCodeFromMessage } from '@/lib/utils'
+import { formatTimestamp } from '@/lib/utils'
+import { toDataUrl } from '@/lib/attachments'
+import { extractCodeFiles } from '@/lib/code-files'
+import { parseCodePatch } from '@/lib/code-patch'
+import { PROMPT_INTENTS } from '@/lib/prompt-templates'
+import { joinReasoning, splitReasoning } from '@/lib/reasoning'
+import { formatCost } from '@/lib/usage-cost'
 import ReactMarkdown from 'react-markdown'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { oneDark, oneLight } from 'react-syntax-highlighter/dist/cjs/styles/prism'
@@ -13,33 +20,150 @@ interface ChatMessageProps {
   onExtractCode?: () => void
   onCopy?: () => void
   onDownload?: () => void
+  // Starts a thread reply; only offered on top-level answers
+  onReply?: () => void
+  // Resends an edited prompt as a new version of it
+  onEdit?: (content: string) => void
+  onRegenerate?: () => void
+  // Shows another version; left out while a reply is generating
+  onSwitchVersion?: (index: number) => void
+  // Inside a compare column: no avatar, full width, usage shown by the column instead
+  compact?: boolean
 }
 
-export function ChatMessage({ message, onExtractCode, onCopy, onDownload }: ChatMessageProps) {
+export function ChatMessage({ message, onExtractCode, onCopy, onDownload, onReply, onEdit, onRegenerate, onSwitchVersion, compact }: ChatMessageProps) {
   const { theme } = useTheme()
+  // Prompt being edited, null when not editing
+  const [draft, setDraft] = useState<string | null>(null)
   const isUser = message.role === 'user'
-  const hasCode = extractCodeFromMessage(message.content) !== null
+  // Older messages kept <think> blocks in their content
+  const parts = isUser ? { reasoning: '', answer: message.content } : splitReasoning(message.content)
+  const reasoning = joinReasoning(message.reasoning, parts.reasoning)
+  const files = message.files || (isUser ? [] : extractCodeFiles(message.content))
+  const hasPatch = !isUser && parseCodePatch(parts.answer).length > 0
+  const hasCode = files.length > 0 || hasPatch
+  const versions = message.versions
+
+  const submitEdit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (draft === null || !draft.trim()) return
+    onEdit?.(draft)
+    setDraft(null)
+  }
 
   return (
     <div className={`flex gap-3 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
       {/* Avatar */}
-      <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
-        isUser 
-          ? 'bg-blue-600 text-white' 
-          : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
-      }`}>
-        {isUser ? <User size={16} /> : <Bot size={16} />}
-      </div>
+      {!compact && (
+        <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
+          isUser 
+            ? 'bg-blue-600 text-white' 
+            : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+        }`}>
+          {isUser ? <User size={16} /> : <Bot size={16} />}
+        </div>
+      )}
 
       {/* Message content */}
-      <div className={`flex-1 max-w-[80%] ${isUser ? 'text-right' : 'text-left'}`}>
-        <div className={`inline-block p-3 rounded-lg ${
+      <div className={`flex-1 min-w-0 ${compact ? '' : 'max-w-[80%]'} ${isUser ? 'text-right' : 'text-left'}`}>
+        {draft !== null && (
+          <form onSubmit={submitEdit} className="text-left">
+            <textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setDraft(null)}
+              rows={Math.min(Math.max(draft.split('\n').length, 2), 8)}
+              className="w-full p-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="flex justify-end gap-2 mt-1">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-3 py-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!draft.trim()}
+                className="px-3 py-1 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Save &amp; send
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className={`${draft !== null ? 'hidden' : 'inline-block'} p-3 rounded-lg ${
           isUser
             ? 'bg-blue-600 text-white'
             : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
         }`}>
+          {/* Model reasoning, collapsed; still streaming while there is no answer yet */}
+          {reasoning && (
+            <details className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+              <summary className="flex items-center gap-1.5 cursor-pointer select-none">
+                <Brain size={12} />
+                <span>{parts.answer.trim() ? 'Thought process' : 'Thinking…'}</span>
+                <span className="opacity-70">({reasoning.length.toLocaleString()} characters)</span>
+              </summary>
+              <div className="mt-1 pl-3 border-l-2 border-gray-300 dark:border-gray-600 whitespace-pre-wrap max-h-64 overflow-y-auto">
+                {reasoning}
+              </div>
+            </details>
+          )}
+
+          {/* Agent tool calls, in the order they ran */}
+          {message.toolSteps && message.toolSteps.length > 0 && (
+            <div className="mb-2 space-y-1 text-xs">
+              {message.toolSteps.map(step => (
+                <details key={step.id} className="rounded bg-gray-200/70 dark:bg-gray-700/70 px-2 py-1">
+                  <summary className="flex items-center gap-1.5 cursor-pointer font-mono">
+                    <Wrench size={10} />
+                    <span>{step.name}</span>
+                    {step.status === 'running' && <Loader2 size={10} className="animate-spin" />}
+                    {step.status === 'done' && <span className="text-green-600 dark:text-green-400">✓</span>}
+                    {step.status === 'error' && <span className="text-red-600 dark:text-red-400">✗</span>}
+                  </summary>
+                  {Object.keys(step.arguments).length > 0 && (
+                    <pre className="mt-1 max-h-32 overflow-auto whitespace-pre-wrap opacity-80">
+                      {JSON.stringify(step.arguments, null, 2)}
+                    </pre>
+                  )}
+                  {step.result && (
+                    <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap">{step.result}</pre>
+                  )}
+                </details>
+              ))}
+            </div>
+          )}
+
+          {message.attachments && message.attachments.length > 0 && (
+            <div className={`flex flex-wrap gap-2 ${message.content ? 'mb-2' : ''} ${isUser ? 'justify-end' : ''}`}>
+              {message.attachments.map(attachment => !attachment.data ? (
+                <span
+                  key={attachment.id}
+                  className="px-2 py-1 rounded text-xs italic bg-black/10 dark:bg-white/10"
+                  title="The image data is no longer stored in this browser"
+                >
+                  {attachment.name} (image unavailable)
+                </span>
+              ) : (
+                <a key={attachment.id} href={toDataUrl(attachment)} target="_blank" rel="noopener noreferrer">
+                  <img
+                    src={toDataUrl(attachment)}
+                    alt={attachment.name}
+                    title={attachment.source === 'screenshot' ? `Scene screenshot: ${attachment.name}` : attachment.name}
+                    className="max-h-40 max-w-[12rem] rounded object-contain bg-white/10"
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+
           {isUser ? (
-            <p className="whitespace-pre-wrap">{message.content}</p>
+            message.content && <p className="whitespace-pre-wrap">{message.content}</p>
           ) : (
             <div className="prose prose-sm dark:prose-invert max-w-none">
               <ReactMarkdown
@@ -70,7 +194,7 @@ export function ChatMessage({ message, onExtractCode, onCopy, onDownload }: Chat
                   }
                 }}
               >
-                {message.content}
+                {parts.answer}
               </ReactMarkdown>
             </div>
           )}
@@ -80,6 +204,28 @@ export function ChatMessage({ message, onExtractCode, onCopy, onDownload }: Chat
         <div className={`flex items-center gap-2 mt-1 text-xs text-gray-500 dark:text-gray-400 ${
           isUser ? 'justify-end' : 'justify-start'
         }`}>
+          {versions && (
+            <span className="flex items-center">
+              <button
+                onClick={() => onSwitchVersion?.(versions.active - 1)}
+                disabled={!onSwitchVersion || versions.active === 0}
+                className="p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title="Previous version"
+              >
+                <ChevronLeft size={12} />
+              </button>
+              <span className="tabular-nums">{versions.active + 1}/{versions.branches.length}</span>
+              <button
+                onClick={() => onSwitchVersion?.(versions.active + 1)}
+                disabled={!onSwitchVersion || versions.active === versions.branches.length - 1}
+                className="p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title="Next version"
+              >
+                <ChevronRight size={12} />
+              </button>
+            </span>
+          )}
+
           <span>{formatTimestamp(message.timestamp)}</span>
           
           {message.library && (
@@ -87,20 +233,76 @@ export function ChatMessage({ message, onExtractCode, onCopy, onDownload }: Chat
               {message.library}
             </span>
           )}
+
+          {message.intent && (
+            <span className="bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded" title="Prompt template used for this message">
+              {PROMPT_INTENTS.find(option => option.id === message.intent)?.label}
+            </span>
+          )}
+
+          {files.length > 1 && (
+            <span
+              className="flex items-center gap-1 bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded"
+              title={files.map(file => file.path).join('\n')}
+            >
+              <Files size={10} />
+              {files.length} files
+            </span>
+          )}
+
+          {message.autoFix && (
+            <span className="flex items-center gap-1 bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 px-2 py-0.5 rounded">
+              <Wrench size={10} />
+              Auto-fix {message.autoFix.attempt}/{message.autoFix.maxAttempts}
+            </span>
+          )}
+
+          {message.interrupted && (
+            <span className="bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 px-2 py-0.5 rounded">
+              Interrupted
+            </span>
+          )}
+
+          {message.cached && (
+            <span
+              className="flex items-center gap-1 bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300 px-2 py-0.5 rounded"
+              title="Replayed from the response cache; no tokens were billed"
+            >
+              <Archive size={10} />
+              Cached
+            </span>
+          )}
+
+          {message.usage && !compact && (
+            <span title={`${message.usage.prompt_tokens} prompt + ${message.usage.completion_tokens} completion tokens`}>
+              {message.usage.total_tokens.toLocaleString()} tokens
+              {message.cost !== undefined && ` • ${formatCost(message.cost)}`}
+            </span>
+          )}
           
+          {isUser && onEdit && draft === null && (
+            <button
+              onClick={() => setDraft(message.content)}
+              className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+              title="Edit and resend"
+            >
+              <Pencil size={12} />
+            </button>
+          )}
+
           {!isUser && (
             <div className="flex items-center gap-1">
               {hasCode && (
                 <button
                   onClick={onExtractCode}
                   className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
-                  title="Send to playground"
+                  title={hasPatch ? 'Review changes in playground' : 'Send to playground'}
                 >
                   <Code size={12} />
                 </button>
               )}
               
-              {hasCode && (
+              {files.length > 0 && (
                 <button
                   onClick={onDownload}
                   className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
@@ -117,6 +319,26 @@ export function ChatMessage({ message, onExtractCode, onCopy, onDownload }: Chat
               >
                 <Copy size={12} />
               </button>
+
+              {onRegenerate && (
+                <button
+                  onClick={onRegenerate}
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                  title="Regenerate reply"
+                >
+                  <RefreshCw size={12} />
+                </button>
+              )}
+
+              {onReply && (
+                <button
+                  onClick={onReply}
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                  title="Reply in thread"
+                >
+                  <Reply size={12} />
+                </button>
+              )}
             </div>
           )}
         </div>
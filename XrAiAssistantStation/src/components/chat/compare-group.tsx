@@ -0,0 +1,103 @@
+'use client'
+
+import { Trophy, Timer } from 'lucide-react'
+import { AIProvider, ChatMessage as ChatMessageType } from '@/store/app-store'
+import { formatCost } from '@/lib/usage-cost'
+import { ChatMessage } from './chat-message'
+
+interface CompareGroupProps {
+  // The replies of one compare round, in column order
+  replies: ChatMessageType[]
+  providers: AIProvider[]
+  isStreaming: boolean
+  onChoose: (message: ChatMessageType) => void
+  onExtractCode: (message: ChatMessageType) => void
+  onCopy: (message: ChatMessageType) => void
+  onDownload: (message: ChatMessageType) => void
+}
+
+/**
+ * Replies from several models to the same prompt, side by side. Once one is
+ * chosen the others are dimmed; they no longer count as conversation history.
+ */
+export function CompareGroup({ replies, providers, isStreaming, onChoose, onExtractCode, onCopy, onDownload }: CompareGroupProps) {
+  const hasChoice = replies.some(reply => reply.comparison?.chosen)
+
+  return (
+    <div className={`grid gap-3 ${replies.length >= 3 ? 'lg:grid-cols-3' : 'lg:grid-cols-2'}`}>
+      {replies.map(reply => {
+        const provider = providers.find(p => p.id === reply.provider)
+        const model = provider?.models.find(m => m.id === reply.model)
+        const chosen = !!reply.comparison?.chosen
+        const finished = reply.comparison?.totalMs !== undefined
+
+        return (
+          <div
+            key={reply.id}
+            id={`message-${reply.id}`}
+            className={`flex flex-col rounded-lg border p-3 min-w-0 ${
+              chosen
+                ? 'border-green-500 ring-1 ring-green-500'
+                : 'border-gray-200 dark:border-gray-700'
+            } ${hasChoice && !chosen ? 'opacity-60' : ''}`}
+          >
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {model?.name || reply.model}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {provider?.name || reply.provider}
+                </div>
+              </div>
+              {chosen ? (
+                <span className="flex items-center gap-1 text-xs text-green-700 dark:text-green-400">
+                  <Trophy size={12} />
+                  Chosen
+                </span>
+              ) : !hasChoice && finished && !reply.isError && (
+                <button
+                  onClick={() => onChoose(reply)}
+                  disabled={isStreaming}
+                  className="flex items-center gap-1 px-2 py-1 text-xs bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title={`Keep this reply and continue the conversation with ${model?.name || reply.model}`}
+                >
+                  <Trophy size={12} />
+                  Continue with this
+                </button>
+              )}
+            </div>
+
+            {/* Latency, tokens and cost side by side for every column */}
+            <div className="flex flex-wrap gap-x-3 gap-y-1 mb-2 text-xs text-gray-500 dark:text-gray-400">
+              <span className="flex items-center gap-1" title="Time to first token / total time">
+                <Timer size={10} />
+                {reply.comparison?.firstTokenMs !== undefined ? formatSeconds(reply.comparison.firstTokenMs) : '–'}
+                {' / '}
+                {finished ? formatSeconds(reply.comparison?.totalMs as number) : '…'}
+              </span>
+              {reply.usage && (
+                <span title={`${reply.usage.prompt_tokens} prompt + ${reply.usage.completion_tokens} completion tokens`}>
+                  {reply.usage.total_tokens.toLocaleString()} tokens
+                </span>
+              )}
+              {reply.cost !== undefined && <span>{formatCost(reply.cost)}</span>}
+            </div>
+
+            <ChatMessage
+              message={reply}
+              compact
+              onExtractCode={() => onExtractCode(reply)}
+              onCopy={() => onCopy(reply)}
+              onDownload={() => onDownload(reply)}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`
+}
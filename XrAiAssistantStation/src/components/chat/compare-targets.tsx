@@ -0,0 +1,79 @@
+'use client'
+
+import { Plus, X } from 'lucide-react'
+import { AIProvider, ModelTarget } from '@/store/app-store'
+
+export const MIN_COMPARE_TARGETS = 2
+export const MAX_COMPARE_TARGETS = 3
+
+interface CompareTargetsProps {
+  targets: ModelTarget[]
+  providers: AIProvider[]
+  onChange: (targets: ModelTarget[]) => void
+}
+
+const toValue = (target: ModelTarget) => `${target.provider}::${target.model}`
+
+/**
+ * Picks the provider/model pairs a compare-mode prompt is sent to.
+ */
+export function CompareTargets({ targets, providers, onChange }: CompareTargetsProps) {
+  const options = providers.flatMap(provider => provider.models.map(model => ({
+    value: toValue({ provider: provider.id, model: model.id }),
+    label: `${provider.name} · ${model.name}`
+  })))
+
+  const updateTarget = (index: number, value: string) => {
+    const [provider, ...model] = value.split('::')
+    onChange(targets.map((target, i) => i === index ? { provider, model: model.join('::') } : target))
+  }
+
+  const addTarget = () => {
+    // Start from a pair that is not compared yet
+    const unused = options.find(option => !targets.some(target => toValue(target) === option.value))
+    const [provider, ...model] = (unused || options[0]).value.split('::')
+    onChange([...targets, { provider, model: model.join('::') }])
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+      <span className="text-xs font-medium text-gray-600 dark:text-gray-400">Compare:</span>
+      {targets.map((target, index) => (
+        <div key={index} className="flex items-center">
+          <select
+            value={toValue(target)}
+            onChange={(e) => updateTarget(index, e.target.value)}
+            className="max-w-[14rem] p-1.5 text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          >
+            {!options.some(option => option.value === toValue(target)) && (
+              <option value={toValue(target)}>{target.model} (unavailable)</option>
+            )}
+            {options.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {targets.length > MIN_COMPARE_TARGETS && (
+            <button
+              type="button"
+              onClick={() => onChange(targets.filter((_, i) => i !== index))}
+              className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+              title="Remove from comparison"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+      {targets.length < MAX_COMPARE_TARGETS && options.length > 0 && (
+        <button
+          type="button"
+          onClick={addTarget}
+          className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg"
+        >
+          <Plus size={12} />
+          <span>Add model</span>
+        </button>
+      )}
+    </div>
+  )
+}
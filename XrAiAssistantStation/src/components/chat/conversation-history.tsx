@@ -0,0 +1,275 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Check, Download, MessageSquarePlus, PanelLeftClose, PanelLeftOpen, Pencil, Trash2, Upload, X } from 'lucide-react'
+import { Conversation, useAppStore } from '@/store/app-store'
+import { collectAttachments, saveAttachmentImages } from '@/lib/attachment-store'
+import {
+  buildConversationExport,
+  ConversationExportFormat,
+  getExportFilename,
+  parseConversationExport,
+  toConversationJson,
+  toConversationMarkdown
+} from '@/lib/conversation-export'
+import { downloadTextFile, formatTimestamp } from '@/lib/utils'
+import toast from 'react-hot-toast'
+
+const EXPORT_FORMATS: Array<{ id: ConversationExportFormat; label: string; title: string }> = [
+  { id: 'markdown', label: 'Markdown', title: 'Transcript with code blocks, for tickets and reviews' },
+  { id: 'html', label: 'HTML', title: 'Self-contained transcript with highlighted code' },
+  { id: 'json', label: 'JSON', title: 'Everything, including branches and the final code; can be imported again' }
+]
+
+/**
+ * Saved conversations beside the chat, most recently updated first. Switching
+ * is disabled while a reply is generating, since it streams into the active
+ * conversation.
+ */
+export function ConversationHistory() {
+  const {
+    conversations,
+    activeConversationId,
+    createConversation,
+    switchConversation,
+    renameConversation,
+    deleteConversation,
+    importConversation,
+    libraries,
+    providers,
+    isLoading
+  } = useAppStore()
+  const [collapsed, setCollapsed] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState('')
+  const [exportingId, setExportingId] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  // Narrow screens need the width for the chat
+  useEffect(() => {
+    if (window.innerWidth < 768) setCollapsed(true)
+  }, [])
+
+  const sorted = conversations.slice().sort((a, b) => b.updatedAt - a.updatedAt)
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id)
+    setDraftTitle(conversation.title)
+  }
+
+  const commitRename = () => {
+    if (editingId) renameConversation(editingId, draftTitle)
+    setEditingId(null)
+  }
+
+  const handleDelete = (conversation: Conversation) => {
+    if (conversation.messages.length > 0 && !window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return
+    deleteConversation(conversation.id)
+  }
+
+  const handleExport = async (conversation: Conversation, format: ConversationExportFormat) => {
+    const exported = buildConversationExport(conversation)
+    const filename = getExportFilename(conversation, format)
+    if (format === 'markdown') {
+      downloadTextFile(toConversationMarkdown(exported), filename, 'text/markdown')
+    } else if (format === 'json') {
+      downloadTextFile(toConversationJson(exported), filename, 'application/json')
+    } else {
+      // Loaded on demand; it brings in the server renderer
+      const { renderTranscriptHtml } = await import('./transcript-html')
+      downloadTextFile(renderTranscriptHtml(exported), filename, 'text/html')
+    }
+    setExportingId(null)
+    toast.success(`Exported "${conversation.title}"`)
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow picking the same file again
+    e.target.value = ''
+    if (!file) return
+    try {
+      const exported = parseConversationExport(await file.text())
+      importConversation(exported.conversation, exported.project)
+      saveAttachmentImages(collectAttachments(exported.conversation.messages))
+      toast.success(`Imported "${exported.conversation.title}"`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import the conversation')
+    }
+  }
+
+  const describeContext = (conversation: Conversation) => {
+    const library = libraries.find(l => l.id === conversation.library3DID)
+    const model = providers
+      .find(p => p.id === conversation.providerUsed)
+      ?.models.find(m => m.id === conversation.modelUsed)
+    return [library?.name, model?.name || conversation.modelUsed].filter(Boolean).join(' • ')
+  }
+
+  if (collapsed) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-3 w-12 border-r border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => setCollapsed(false)}
+          className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          title="Show conversations"
+        >
+          <PanelLeftOpen size={18} />
+        </button>
+        <button
+          onClick={createConversation}
+          disabled={isLoading}
+          className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          title="New conversation"
+        >
+          <MessageSquarePlus size={18} />
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <aside className="flex flex-col w-64 flex-shrink-0 border-r border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between px-3 py-3 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Conversations</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isLoading}
+            className="p-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            title="Import a conversation exported as JSON"
+          >
+            <Upload size={16} />
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          <button
+            onClick={createConversation}
+            disabled={isLoading}
+            className="p-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            title="New conversation"
+          >
+            <MessageSquarePlus size={16} />
+          </button>
+          <button
+            onClick={() => setCollapsed(true)}
+            className="p-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            title="Hide conversations"
+          >
+            <PanelLeftClose size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sorted.length === 0 && (
+          <p className="px-2 py-4 text-xs text-center text-gray-500 dark:text-gray-400">
+            Conversations are saved here as you chat.
+          </p>
+        )}
+
+        {sorted.map(conversation => {
+          const isActive = conversation.id === activeConversationId
+
+          if (editingId === conversation.id) {
+            return (
+              <form
+                key={conversation.id}
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  commitRename()
+                }}
+                className="flex items-center gap-1 p-1"
+              >
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                  className="flex-1 min-w-0 p-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button type="submit" className="p-1 text-green-600 dark:text-green-400" title="Save title">
+                  <Check size={14} />
+                </button>
+                <button type="button" onClick={() => setEditingId(null)} className="p-1 text-gray-500" title="Cancel">
+                  <X size={14} />
+                </button>
+              </form>
+            )
+          }
+
+          return (
+            <div key={conversation.id}>
+              <div
+                className={`group flex items-start gap-1 rounded-lg ${
+                  isActive
+                    ? 'bg-blue-50 dark:bg-blue-900/30'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+              >
+                <button
+                  onClick={() => switchConversation(conversation.id)}
+                  disabled={isLoading && !isActive}
+                  className="flex-1 min-w-0 px-2 py-2 text-left disabled:cursor-not-allowed"
+                >
+                  <div className={`text-sm truncate ${
+                    isActive ? 'font-medium text-blue-900 dark:text-blue-100' : 'text-gray-800 dark:text-gray-200'
+                  }`}>
+                    {conversation.title}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {formatTimestamp(conversation.updatedAt)}
+                    {describeContext(conversation) && ` • ${describeContext(conversation)}`}
+                  </div>
+                </button>
+                <div className="flex items-center pt-2 pr-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => setExportingId(exportingId === conversation.id ? null : conversation.id)}
+                    className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                    title="Export"
+                  >
+                    <Download size={12} />
+                  </button>
+                  <button
+                    onClick={() => startRename(conversation)}
+                    className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                    title="Rename"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(conversation)}
+                    disabled={isLoading && isActive}
+                    className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-40"
+                    title="Delete"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+              {exportingId === conversation.id && (
+                <div className="flex items-center gap-1 px-2 pb-2 pt-1">
+                  {EXPORT_FORMATS.map(format => (
+                    <button
+                      key={format.id}
+                      onClick={() => handleExport(conversation, format.id)}
+                      className="px-2 py-0.5 text-xs bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                      title={format.title}
+                    >
+                      {format.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </aside>
+  )
+}
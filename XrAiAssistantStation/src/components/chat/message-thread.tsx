@@ -0,0 +1,71 @@
+'use client'
+
+import { ChevronDown, ChevronRight, MessagesSquare, Reply } from 'lucide-react'
+import { ChatMessage as ChatMessageType } from '@/store/app-store'
+import { formatTimestamp } from '@/lib/utils'
+import { ChatMessage } from './chat-message'
+
+interface MessageThreadProps {
+  replies: ChatMessageType[]
+  expanded: boolean
+  // Reply to outline after a jump from search
+  highlightedId?: string | null
+  // The input is currently replying into this thread
+  isActive: boolean
+  onToggle: () => void
+  onReply: () => void
+  onExtractCode: (message: ChatMessageType) => void
+  onCopy: (message: ChatMessageType) => void
+  onDownload: (message: ChatMessageType) => void
+}
+
+/**
+ * Follow-up replies to one answer, after the iOS ThreadedMessageView. Shown
+ * collapsed to a summary line under the answer until opened.
+ */
+export function MessageThread({ replies, expanded, highlightedId, isActive, onToggle, onReply, onExtractCode, onCopy, onDownload }: MessageThreadProps) {
+  if (replies.length === 0) return null
+  const lastReply = replies[replies.length - 1]
+
+  return (
+    <div className={`ml-11 pl-4 border-l-2 ${isActive ? 'border-blue-500' : 'border-gray-200 dark:border-gray-700'}`}>
+      <button
+        onClick={onToggle}
+        className="flex items-center gap-1.5 py-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <MessagesSquare size={12} />
+        <span>{replies.length} {replies.length === 1 ? 'reply' : 'replies'}</span>
+        <span className="text-gray-500 dark:text-gray-400">• last {formatTimestamp(lastReply.timestamp)}</span>
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-3">
+          {replies.map(reply => (
+            <div
+              key={reply.id}
+              id={`message-${reply.id}`}
+              className={`rounded-lg transition-shadow ${highlightedId === reply.id ? 'ring-2 ring-yellow-400' : ''}`}
+            >
+              <ChatMessage
+                message={reply}
+                onExtractCode={() => onExtractCode(reply)}
+                onCopy={() => onCopy(reply)}
+                onDownload={() => onDownload(reply)}
+              />
+            </div>
+          ))}
+          {!isActive && (
+            <button
+              onClick={onReply}
+              className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+            >
+              <Reply size={12} />
+              Reply in thread
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
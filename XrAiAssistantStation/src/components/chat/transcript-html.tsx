@@ -0,0 +1,144 @@
+import { renderToStaticMarkup } from 'react-dom/server'
+import ReactMarkdown from 'react-markdown'
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
+import { oneLight } from 'react-syntax-highlighter/dist/cjs/styles/prism'
+import { ChatMessage as ChatMessageType } from '@/store/app-store'
+import { toDataUrl } from '@/lib/attachments'
+import {
+  ConversationExport,
+  describeSpeaker,
+  getMessageParts,
+  getProjectFiles,
+  getTranscriptEntries
+} from '@/lib/conversation-export'
+
+const TRANSCRIPT_CSS = `
+body { margin: 0; background: #f9fafb; color: #111827; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 32px 20px; }
+h1 { margin: 0 0 8px; font-size: 24px; }
+.meta { margin: 0 0 24px; padding: 0; list-style: none; color: #4b5563; font-size: 13px; }
+.message { margin: 16px 0; padding: 12px 16px; border-radius: 8px; background: #fff; border: 1px solid #e5e7eb; }
+.message.user { background: #eff6ff; border-color: #bfdbfe; }
+.message.error { border-color: #fca5a5; }
+.speaker { margin-bottom: 4px; color: #6b7280; font-size: 12px; }
+.thread { margin: 8px 0 0 24px; padding-left: 16px; border-left: 2px solid #e5e7eb; }
+.attachments img { max-height: 240px; max-width: 100%; margin: 4px 8px 4px 0; border-radius: 4px; }
+details { margin: 8px 0; color: #4b5563; font-size: 13px; white-space: pre-wrap; }
+pre { overflow-x: auto; border-radius: 6px; font-size: 13px; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+`
+
+/**
+ * A single HTML file for a conversation: no scripts and no external
+ * resources, with code highlighted through inline styles and images inlined,
+ * so it can be attached to a ticket and opened anywhere.
+ */
+export function renderTranscriptHtml(exported: ConversationExport): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(exported.conversation.title)}</title>`,
+    `<style>${TRANSCRIPT_CSS}</style>`,
+    '</head>',
+    `<body>${renderToStaticMarkup(<Transcript exported={exported} />)}</body>`,
+    '</html>'
+  ].join('\n')
+}
+
+function Transcript({ exported }: { exported: ConversationExport }) {
+  const { conversation, library, model, parameters } = exported
+  const files = getProjectFiles(exported)
+
+  return (
+    <main>
+      <h1>{conversation.title}</h1>
+      <ul className="meta">
+        {library && <li>Library: {library.name} v{library.version}</li>}
+        {model && <li>Model: {model.name} ({model.providerName})</li>}
+        <li>Temperature: {parameters.temperature} • Top-p: {parameters.topP}</li>
+        <li>Exported: {new Date(exported.exportedAt).toLocaleString()}</li>
+      </ul>
+
+      {getTranscriptEntries(conversation).map(({ message, replies }) => (
+        <section key={message.id}>
+          <TranscriptMessage message={message} />
+          {replies.length > 0 && (
+            <div className="thread">
+              {replies.map(reply => <TranscriptMessage key={reply.id} message={reply} />)}
+            </div>
+          )}
+        </section>
+      ))}
+
+      {files.length > 0 && (
+        <section>
+          <h2>Final code</h2>
+          {files.map(file => (
+            <div key={file.path}>
+              {files.length > 1 && <h3><code>{file.path}</code></h3>}
+              <CodeBlock language={file.language} code={file.content} />
+            </div>
+          ))}
+        </section>
+      )}
+    </main>
+  )
+}
+
+function TranscriptMessage({ message }: { message: ChatMessageType }) {
+  const { answer, reasoning } = getMessageParts(message)
+
+  return (
+    <article className={`message ${message.role}${message.isError ? ' error' : ''}`}>
+      <div className="speaker">
+        {describeSpeaker(message)} · {new Date(message.timestamp).toLocaleString()}
+      </div>
+      {reasoning && (
+        <details>
+          <summary>Thought process</summary>
+          {reasoning}
+        </details>
+      )}
+      {message.attachments && message.attachments.length > 0 && (
+        <div className="attachments">
+          {message.attachments.map(image => image.data
+            ? <img key={image.id} src={toDataUrl(image)} alt={image.name} title={image.name} />
+            : <em key={image.id}>{image.name} (image not stored) </em>)}
+        </div>
+      )}
+      {message.role === 'user' ? (
+        <p style={{ whiteSpace: 'pre-wrap', margin: 0 }}>{answer}</p>
+      ) : (
+        <ReactMarkdown
+          components={{
+            // Fenced blocks bring their own <pre>, see code below
+            pre: ({ children }) => <>{children}</>,
+            code: ({ className, children }) => {
+              const text = String(children)
+              const language = /language-(\w+)/.exec(className || '')?.[1]
+              if (language) return <CodeBlock language={language} code={text.replace(/\n$/, '')} />
+              return text.includes('\n') ? <pre><code>{text}</code></pre> : <code>{text}</code>
+            }
+          }}
+        >
+          {answer}
+        </ReactMarkdown>
+      )}
+    </article>
+  )
+}
+
+function CodeBlock({ language, code }: { language: string; code: string }) {
+  return (
+    <SyntaxHighlighter style={oneLight} language={language} PreTag="pre">
+      {code}
+    </SyntaxHighlighter>
+  )
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
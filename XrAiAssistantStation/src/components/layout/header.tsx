@@ -1,14 +1,15 @@
 'use client'
 
-import { Settings, Moon, Sun, Monitor } from 'lucide-react'
+import { Settings, Moon, Sun, Monitor, Search } from 'lucide-react'
 import { useTheme } from 'next-themes'
 import { useEffect, useState } from 'react'
 
 interface HeaderProps {
   onOpenSettings: () => void
+  onOpenSearch: () => void
 }
 
-export function Header({ onOpenSettings }: HeaderProps) {
+export function Header({ onOpenSettings, onOpenSearch }: HeaderProps) {
   const { theme, setTheme } = useTheme()
   const [mounted, setMounted] = useState(false)
 
@@ -52,6 +53,14 @@ export function Header({ onOpenSettings }: HeaderProps) {
       </div>
       
       <div className="flex items-center space-x-2">
+        <button
+          onClick={onOpenSearch}
+          className="p-2 rounded-lg bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label="Search conversations"
+        >
+          <Search size={20} />
+        </button>
+
         <button
           onClick={cycleTheme}
           className="p-2 rounded-lg bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
@@ -70,4 +79,4 @@ export function Header({ onOpenSettings }: HeaderProps) {
       </div>
     </header>
   )
-}
\ No newline at end of file
+}
\ No newline at end of file
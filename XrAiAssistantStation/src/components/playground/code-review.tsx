@@ -0,0 +1,231 @@
+'use client'
+
+import { useMemo, useRef } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { useTheme } from 'next-themes'
+import { Check, X, AlertTriangle, FileDiff } from 'lucide-react'
+import { PendingCodeEdit, useAppStore } from '@/store/app-store'
+import { applyEditHunks, EditHunk } from '@/lib/code-patch'
+import toast from 'react-hot-toast'
+
+interface CodeReviewProps {
+  edit: PendingCodeEdit
+  language: string
+}
+
+/**
+ * Shows AI-proposed changes as a diff against the editor, with an
+ * accept/reject choice per hunk. Nothing reaches the editor until Apply.
+ */
+export function CodeReview({ edit, language }: CodeReviewProps) {
+  const { theme } = useTheme()
+  const {
+    currentCode,
+    setCurrentCode,
+    setCodeFiles,
+    setHunkDecision,
+    setAllHunkDecisions,
+    clearPendingEdit
+  } = useAppStore()
+  const diffEditorRef = useRef<any>(null)
+
+  const placedHunks = edit.hunks.filter(hunk => !hunk.error)
+  const failedHunks = edit.hunks.filter(hunk => hunk.error)
+  const pendingCount = placedHunks.filter(hunk => edit.decisions[hunk.id] === 'pending').length
+  const acceptedCount = placedHunks.filter(hunk => edit.decisions[hunk.id] === 'accepted').length
+
+  // Pending hunks stay in the preview so they can be judged in context
+  const { baseCode, hunks, decisions } = edit
+  const preview = useMemo(
+    () => applyEditHunks(baseCode, hunks.filter(hunk => !hunk.error && decisions[hunk.id] !== 'rejected')),
+    [baseCode, hunks, decisions]
+  )
+
+  const loadCode = (code: string) => {
+    if (edit.files && edit.entryPath) {
+      setCodeFiles(
+        edit.files.map(file => file.path === edit.entryPath ? { ...file, content: code } : file),
+        edit.entryPath
+      )
+    } else {
+      setCurrentCode(code)
+    }
+    clearPendingEdit()
+  }
+
+  const handleApply = () => {
+    // Hunks are placed by line number, so they only fit the code they were made for
+    if (currentCode !== edit.baseCode && !window.confirm(
+      'The code changed after these edits were proposed. Apply them to the version they were made for? Later changes will be lost.'
+    )) return
+
+    const accepted = placedHunks.filter(hunk => edit.decisions[hunk.id] === 'accepted')
+    loadCode(applyEditHunks(edit.baseCode, accepted))
+    toast.success(`Applied ${accepted.length} of ${edit.hunks.length} change${edit.hunks.length === 1 ? '' : 's'}`)
+  }
+
+  const handleReplaceWholeFile = () => {
+    if (!edit.fallbackCode) return
+    if (!window.confirm('Replace the entire editor contents with the full file from this reply?')) return
+    loadCode(edit.fallbackCode)
+    toast.success('Code replaced with the full file')
+  }
+
+  const handleDiscard = () => {
+    clearPendingEdit()
+    toast('Proposed changes discarded')
+  }
+
+  const revealHunk = (hunk: EditHunk) => {
+    diffEditorRef.current?.getOriginalEditor().revealLineInCenter(hunk.start + 1)
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800">
+        <div className="flex items-center space-x-2 text-sm text-amber-900 dark:text-amber-100">
+          <FileDiff size={16} />
+          <span className="font-medium">
+            {edit.source === 'patch' ? 'Proposed edits' : 'Proposed replacement'}
+          </span>
+          <span className="text-xs opacity-80">
+            {placedHunks.length} change{placedHunks.length === 1 ? '' : 's'}
+            {pendingCount > 0 && ` • ${pendingCount} to review`}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setAllHunkDecisions('accepted')}
+            disabled={placedHunks.length === 0}
+            className="px-2 py-1 text-xs rounded text-gray-700 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 disabled:opacity-50"
+          >
+            Accept all
+          </button>
+          <button
+            onClick={() => setAllHunkDecisions('rejected')}
+            disabled={placedHunks.length === 0}
+            className="px-2 py-1 text-xs rounded text-gray-700 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 disabled:opacity-50"
+          >
+            Reject all
+          </button>
+          <button
+            onClick={handleDiscard}
+            className="px-2 py-1 text-xs rounded text-gray-700 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+          >
+            Discard
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={pendingCount > 0 || acceptedCount === 0}
+            title={pendingCount > 0 ? 'Accept or reject every change first' : undefined}
+            className="px-3 py-1 text-xs font-medium rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply {acceptedCount > 0 ? acceptedCount : ''}
+          </button>
+        </div>
+      </div>
+
+      {/* Hunks that could not be placed */}
+      {failedHunks.length > 0 && (
+        <div className="flex items-start justify-between gap-3 px-4 py-2 text-xs bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border-b border-red-200 dark:border-red-800">
+          <div className="flex items-start space-x-2">
+            <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+            <div>
+              <div className="font-medium">
+                {failedHunks.length} of {edit.hunks.length} change{edit.hunks.length === 1 ? '' : 's'} did not apply cleanly
+              </div>
+              {failedHunks.map(hunk => (
+                <div key={hunk.id} title={hunk.original.join('\n')}>{hunk.error}</div>
+              ))}
+              {!edit.fallbackCode && (
+                <div className="mt-1 opacity-80">Ask the assistant for the complete file to replace it instead.</div>
+              )}
+            </div>
+          </div>
+          {edit.fallbackCode && (
+            <button
+              onClick={handleReplaceWholeFile}
+              className="flex-shrink-0 px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700"
+            >
+              Replace whole file
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Per-hunk decisions */}
+      {placedHunks.length > 0 && (
+        <div className="max-h-40 overflow-y-auto border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          {placedHunks.map(hunk => {
+            const decision = edit.decisions[hunk.id]
+            return (
+              <div
+                key={hunk.id}
+                className="flex items-center justify-between px-4 py-1.5 text-xs border-b last:border-b-0 border-gray-100 dark:border-gray-700"
+              >
+                <button
+                  onClick={() => revealHunk(hunk)}
+                  className="font-mono text-gray-700 dark:text-gray-300 hover:underline"
+                >
+                  {hunk.end > hunk.start ? `Lines ${hunk.start + 1}–${hunk.end}` : `Insert at line ${hunk.start + 1}`}
+                  <span className="ml-2 text-red-600 dark:text-red-400">−{hunk.original.length}</span>
+                  <span className="ml-1 text-green-600 dark:text-green-400">+{hunk.replacement.length}</span>
+                </button>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => setHunkDecision(hunk.id, 'accepted')}
+                    className={`flex items-center space-x-1 px-2 py-0.5 rounded ${
+                      decision === 'accepted'
+                        ? 'bg-green-600 text-white'
+                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <Check size={12} />
+                    <span>Accept</span>
+                  </button>
+                  <button
+                    onClick={() => setHunkDecision(hunk.id, 'rejected')}
+                    className={`flex items-center space-x-1 px-2 py-0.5 rounded ${
+                      decision === 'rejected'
+                        ? 'bg-red-600 text-white'
+                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <X size={12} />
+                    <span>Reject</span>
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Diff: editor contents on the left, with the non-rejected changes on the right */}
+      <div className="flex-1 min-h-0">
+        <DiffEditor
+          height="100%"
+          language={language}
+          original={edit.baseCode}
+          modified={preview}
+          theme={theme === 'dark' ? 'vs-dark' : 'light'}
+          onMount={(editor) => { diffEditorRef.current = editor }}
+          options={{
+            readOnly: true,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            fontSize: 14,
+            automaticLayout: true,
+            scrollBeyondLastLine: false
+          }}
+          loading={
+            <div className="flex items-center justify-center h-full">
+              <div className="text-gray-500 dark:text-gray-400">Loading diff...</div>
+            </div>
+          }
+        />
+      </div>
+    </div>
+  )
+}
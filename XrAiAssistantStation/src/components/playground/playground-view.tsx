@@ -1,21 +1,42 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { Play, Square, RotateCcw, Download, Upload, Maximize2, Minimize2 } from 'lucide-react'
 import { useAppStore } from '@/store/app-store'
+import { runAutoFixAttempt } from '@/lib/auto-fix'
 import { CodeEditor } from './code-editor'
+import { CodeReview } from './code-review'
 import { SceneRenderer } from './scene-renderer'
 import { SandpackWebView } from './sandpack-webview'
 import { downloadTextFile } from '@/lib/utils'
+import { buildRunnableScript, CodeFile } from '@/lib/code-files'
 import { SandpackErrorBoundary } from './error-boundary'
 import toast from 'react-hot-toast'
 
 export function PlaygroundView() {
-  const { currentCode, setCurrentCode, getCurrentLibrary } = useAppStore()
+  const {
+    currentCode,
+    setCurrentCode,
+    codeFiles,
+    codeEntryPath,
+    setCodeFiles,
+    updateCodeFile,
+    sceneRunRequest,
+    pendingEdit,
+    sceneErrors,
+    isLoading,
+    settings,
+    addMessage,
+    getCurrentLibrary
+  } = useAppStore()
   const [isRunning, setIsRunning] = useState(false)
+  // File shown in the editor when a multi-file set is loaded
+  const [activePath, setActivePath] = useState<string | null>(null)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [splitView, setSplitView] = useState(true)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Auto-fix budget for the current code; `code` is what the last fix produced
+  const autoFixRef = useRef({ attempts: 0, busy: false, stopped: false, cancelled: false, code: '' })
   
   const currentLibrary = getCurrentLibrary()
   
@@ -23,6 +44,25 @@ export function PlaygroundView() {
   const useSandpack = currentLibrary?.id === 'react-three-fiber'
   const sandpackFramework = 'react-three-fiber'
 
+  const entryLanguage = currentLibrary?.id === 'react-three-fiber' ? 'jsx' : 'javascript'
+  const isMultiFile = codeFiles.length > 1 && codeEntryPath !== null
+  const activeFile = isMultiFile
+    ? codeFiles.find(file => file.path === (activePath || codeEntryPath))
+    : undefined
+  const isEditingEntry = !activeFile || activeFile.path === codeEntryPath
+  // Memoized: Sandpack rebuilds its files whenever this array changes identity
+  const supportingFiles = useMemo(
+    () => codeFiles.length > 1 ? codeFiles.filter(file => file.path !== codeEntryPath) : [],
+    [codeFiles, codeEntryPath]
+  )
+  // The iframe renderer runs one script, so supporting files are inlined ahead of the entry
+  const runnableCode = isMultiFile && codeEntryPath ? buildRunnableScript(codeFiles, codeEntryPath) : currentCode
+
+  // Show the entry file whenever a new file set arrives
+  useEffect(() => {
+    setActivePath(codeEntryPath)
+  }, [codeEntryPath, codeFiles.length])
+
   useEffect(() => {
     // Initialize with template if no code exists
     if (!currentCode && currentLibrary) {
@@ -30,6 +70,60 @@ export function PlaygroundView() {
     }
   }, [currentLibrary, currentCode, setCurrentCode])
 
+  // Runs requested from outside the playground (the agent's run_scene tool)
+  useEffect(() => {
+    if (sceneRunRequest === 0) return
+
+    setIsRunning(true)
+    const timer = setTimeout(() => setIsRunning(false), 1000)
+    return () => clearTimeout(timer)
+  }, [sceneRunRequest])
+
+  // Code that did not come from auto-fix gets a fresh attempt budget
+  useEffect(() => {
+    const autoFix = autoFixRef.current
+    if (autoFix.busy) {
+      // The fix being applied
+      autoFix.code = currentCode
+    } else if (currentCode !== autoFix.code) {
+      autoFixRef.current = { attempts: 0, busy: false, stopped: false, cancelled: false, code: currentCode }
+    }
+  }, [currentCode])
+
+  // Auto-fix: send the first error of a run back to the model, within the attempt budget.
+  // Sandpack errors are not reported to the store, so this only covers the iframe renderer.
+  useEffect(() => {
+    const autoFix = autoFixRef.current
+    if (!settings.autoFix || sceneErrors.length === 0 || autoFix.busy || autoFix.cancelled || isLoading || pendingEdit) return
+
+    if (autoFix.attempts >= settings.maxAutoFixAttempts) {
+      if (!autoFix.stopped) {
+        autoFix.stopped = true
+        addMessage({
+          role: 'assistant',
+          content: `Auto-fix stopped after ${autoFix.attempts} attempt${autoFix.attempts === 1 ? '' : 's'}; the scene still throws. Edit the code or ask for help in the chat.`,
+          isError: true
+        })
+      }
+      return
+    }
+
+    // Supporting files are inlined ahead of the entry file, so shift lines back to the entry
+    const error = sceneErrors[0]
+    const entryOffset = runnableCode.split('\n').length - currentCode.split('\n').length
+    const line = error.line && error.line > entryOffset ? error.line - entryOffset : undefined
+
+    autoFix.attempts++
+    autoFix.busy = true
+    runAutoFixAttempt({ ...error, line }, autoFix.attempts).then(outcome => {
+      // Stopping ends auto-fix for this code; an edit starts a fresh budget
+      autoFix.cancelled = outcome === 'stopped'
+    }).finally(() => {
+      autoFix.busy = false
+      autoFix.code = useAppStore.getState().currentCode
+    })
+  }, [sceneErrors, settings.autoFix, settings.maxAutoFixAttempts, isLoading, pendingEdit, runnableCode, currentCode, addMessage])
+
   const handleRunCode = () => {
     if (!currentCode.trim()) {
       toast.error('No code to run')
@@ -52,6 +146,7 @@ export function PlaygroundView() {
 
   const handleResetCode = () => {
     if (currentLibrary) {
+      setCodeFiles([])
       setCurrentCode(currentLibrary.codeTemplate)
       toast.success('Code reset to template')
     }
@@ -63,6 +158,12 @@ export function PlaygroundView() {
       return
     }
     
+    if (isMultiFile) {
+      codeFiles.forEach(file => downloadTextFile(file.content, file.path.split('/').pop() || file.path))
+      toast.success(`${codeFiles.length} files downloaded!`)
+      return
+    }
+
     const extension = currentLibrary?.id === 'react-three-fiber' ? 'jsx' : 'js'
     downloadTextFile(currentCode, `scene.${extension}`)
     toast.success('Code downloaded!')
@@ -84,6 +185,7 @@ export function PlaygroundView() {
     const reader = new FileReader()
     reader.onload = (e) => {
       const content = e.target?.result as string
+      setCodeFiles([])
       setCurrentCode(content)
       toast.success('Code uploaded successfully!')
     }
@@ -193,13 +295,42 @@ export function PlaygroundView() {
       <div className={`flex-1 ${splitView ? 'flex' : ''}`}>
         {/* Code Editor */}
         {(splitView || !isFullscreen) && (
-          <div className={splitView ? 'w-1/2 border-r border-gray-200 dark:border-gray-700' : 'h-full'}>
-            <CodeEditor
-              value={currentCode}
-              onChange={setCurrentCode}
-              language={currentLibrary.id === 'react-three-fiber' ? 'jsx' : 'javascript'}
-              library={currentLibrary}
-            />
+          <div className={`flex flex-col ${splitView ? 'w-1/2 border-r border-gray-200 dark:border-gray-700' : 'h-full'}`}>
+            {/* AI edits are reviewed as a diff before they reach the editor */}
+            {pendingEdit && (
+              <div className="flex-1 min-h-0">
+                <CodeReview edit={pendingEdit} language={entryLanguage} />
+              </div>
+            )}
+            {!pendingEdit && isMultiFile && (
+              <div className="flex items-center overflow-x-auto bg-gray-100 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+                {codeFiles.map(file => (
+                  <button
+                    key={file.path}
+                    onClick={() => setActivePath(file.path)}
+                    className={`px-3 py-1.5 text-xs font-mono whitespace-nowrap border-r border-gray-200 dark:border-gray-700 transition-colors ${
+                      file.path === activeFile?.path
+                        ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white'
+                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
+                    }`}
+                    title={file.path === codeEntryPath ? 'Entry file (runs last)' : file.path}
+                  >
+                    {file.path}
+                    {file.path === codeEntryPath && <span className="ml-1 text-green-600 dark:text-green-400">●</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+            {!pendingEdit && (
+              <div className="flex-1 min-h-0">
+                <CodeEditor
+                  value={isEditingEntry ? currentCode : activeFile.content}
+                  onChange={isEditingEntry ? setCurrentCode : (value) => updateCodeFile(activeFile.path, value)}
+                  language={activeFile ? editorLanguage(activeFile, currentLibrary.id) : entryLanguage}
+                  library={currentLibrary}
+                />
+              </div>
+            )}
           </div>
         )}
 
@@ -215,6 +346,7 @@ export function PlaygroundView() {
               >
                 <SandpackWebView
                   initialCode={currentCode}
+                  extraFiles={supportingFiles}
                   framework="react-three-fiber"
                   onCodeChange={setCurrentCode}
                   onSandboxCreated={(url) => {
@@ -228,7 +360,7 @@ export function PlaygroundView() {
               </SandpackErrorBoundary>
             ) : (
               <SceneRenderer
-                code={currentCode}
+                code={runnableCode}
                 library={currentLibrary}
                 isRunning={isRunning}
               />
@@ -247,4 +379,17 @@ export function PlaygroundView() {
       />
     </div>
   )
+}
+
+function editorLanguage(file: CodeFile, libraryId: string): string {
+  switch (file.language) {
+    case 'css':
+    case 'html':
+      return file.language
+    case 'typescript':
+    case 'tsx':
+      return 'typescript'
+    default:
+      return libraryId === 'react-three-fiber' ? 'jsx' : 'javascript'
+  }
 }
\ No newline at end of file
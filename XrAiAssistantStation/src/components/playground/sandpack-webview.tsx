@@ -14,10 +14,13 @@ import { sharingService } from '@/lib/sharing-service'
 import { copyToClipboard } from '@/lib/utils'
 import { SandpackErrorBoundary, useErrorHandler } from './error-boundary'
 import { useAppStore } from '@/store/app-store'
+import type { CodeFile } from '@/lib/code-files'
 import toast from 'react-hot-toast'
 
 interface SandpackWebViewProps {
   initialCode: string
+  // Supporting files from a multi-file reply, added next to src/App.js
+  extraFiles?: CodeFile[]
   framework: 'react' | 'react-three-fiber'
   onCodeChange?: (code: string) => void
   onSandboxCreated?: (sandboxUrl: string) => void
@@ -26,8 +29,12 @@ interface SandpackWebViewProps {
   autoReload?: boolean
 }
 
+// Stable default so the setup effect does not re-run on every render
+const NO_EXTRA_FILES: CodeFile[] = []
+
 export function SandpackWebView({ 
   initialCode, 
+  extraFiles = NO_EXTRA_FILES,
   framework, 
   onCodeChange, 
   onSandboxCreated,
@@ -69,6 +76,9 @@ export function SandpackWebView({
           }
           filesObj[path] = fileData.code
         })
+        extraFiles.forEach(file => {
+          filesObj[toSandpackPath(file.path)] = file.content
+        })
         
         setFiles(filesObj)
         setTemplate('create-react-app')
@@ -100,7 +110,7 @@ export function SandpackWebView({
       setError(`Failed to setup code environment: ${errorMessage}`)
       toast.error('Failed to initialize code environment')
     }
-  }, [initialCode, framework])
+  }, [initialCode, extraFiles, framework])
 
   // Close share menu when clicking outside
   useEffect(() => {
@@ -414,4 +424,9 @@ export function SandpackWebView({
       </div>
     </div>
   )
+}
+
+// Model paths are relative to the app ("components/Planet.jsx"); Sandpack's live under src/
+function toSandpackPath(path: string): string {
+  return `src/${path.replace(/^(\.\/|\/)+/, '').replace(/^src\//, '')}`
 }
\ No newline at end of file
@@ -2,7 +2,14 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { AlertCircle, Loader2, Eye, EyeOff } from 'lucide-react'
-import { Library3D } from '@/store/app-store'
+import { Library3D, useAppStore } from '@/store/app-store'
+import { registerSceneCapturer } from '@/lib/scene-capture'
+
+// Where the user code goes in the generated page; replaced after line offsets are known
+const USER_CODE_MARKER = '/*__XRAI_USER_CODE__*/'
+const LINE_OFFSET_MARKER = '__XRAI_LINE_OFFSET__'
+// Hidden frames may never get an animation frame; copy straight away after this
+const CAPTURE_FRAME_TIMEOUT_MS = 500
 
 interface SceneRendererProps {
   code: string
@@ -15,6 +22,7 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isVisible, setIsVisible] = useState(true)
+  const { reportSceneError, clearSceneErrors } = useAppStore()
 
   useEffect(() => {
     if (isRunning && code && iframeRef.current) {
@@ -22,11 +30,31 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
     }
   }, [isRunning, code, library])
 
+  // The page inside the iframe posts its runtime errors here
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return
+      if (event.data?.source !== 'xrai-scene' || event.data.type !== 'error') return
+
+      const { message, line, column, stack } = event.data
+      setError(`Runtime Error: ${message}${line ? ` (line ${line}${column ? `:${column}` : ''})` : ''}`)
+      setIsLoading(false)
+      reportSceneError({ message, line, column, stack })
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [reportSceneError])
+
+  // Lets the chat attach a screenshot of the scene
+  useEffect(() => registerSceneCapturer(() => captureSceneCanvas(iframeRef.current)), [])
+
   const executeCode = () => {
     if (!iframeRef.current) return
 
     setIsLoading(true)
     setError(null)
+    clearSceneErrors()
 
     try {
       const iframe = iframeRef.current
@@ -41,12 +69,6 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
         doc.write(htmlContent)
         doc.close()
         
-        // Listen for errors from the iframe
-        iframe.contentWindow?.addEventListener('error', (event) => {
-          setError(`Runtime Error: ${event.error?.message || event.message}`)
-          setIsLoading(false)
-        })
-        
         // Listen for successful load
         iframe.onload = () => {
           setIsLoading(false)
@@ -102,7 +124,7 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
         break
     }
 
-    return `
+    const html = `
 <!DOCTYPE html>
 <html lang="en">
 <head>
@@ -167,16 +189,30 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
     ${cdnLinks}
     
     <script>
+        // Lines before the user's first line in this document
+        const USER_LINE_OFFSET = ${LINE_OFFSET_MARKER};
+        
+        function toUserLine(line) {
+            return line > USER_LINE_OFFSET ? line - USER_LINE_OFFSET : undefined;
+        }
+        
+        // Send errors to the app (playground error state, agent tools, auto-fix)
+        function reportError(message, line, column, stack) {
+            window.parent.postMessage({ source: 'xrai-scene', type: 'error', message, line, column, stack }, '*');
+        }
+        
         // Error handling
         window.addEventListener('error', function(e) {
+            const line = toUserLine(e.lineno);
             const errorDiv = document.getElementById('error-overlay');
             errorDiv.innerHTML = \`
                 <strong>Error in ${library.name} scene:</strong><br>
                 \${e.error?.message || e.message}<br>
-                <small>Line: \${e.lineno}, Column: \${e.colno}</small>
+                <small>Line: \${line ?? e.lineno}, Column: \${e.colno}</small>
             \`;
             errorDiv.style.display = 'block';
             document.getElementById('loading-overlay').style.display = 'none';
+            reportError(e.error?.message || e.message, line, e.colno || undefined, e.error?.stack);
         });
         
         // Hide loading overlay after a delay
@@ -187,7 +223,7 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
         
         // User code
         try {
-            ${wrapperCode}
+${USER_CODE_MARKER}
         } catch (error) {
             const errorDiv = document.getElementById('error-overlay');
             errorDiv.innerHTML = \`
@@ -197,10 +233,22 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
             \`;
             errorDiv.style.display = 'block';
             document.getElementById('loading-overlay').style.display = 'none';
+            // Caught errors carry no line number; take it from the first stack frame
+            const frame = /:(\\d+):(\\d+)\\)?\\s*$/m.exec(String(error.stack || '').split('\\n').slice(1).join('\\n'));
+            reportError(error.message, frame ? toUserLine(Number(frame[1])) : undefined, frame ? Number(frame[2]) : undefined, error.stack);
         }
     </script>
 </body>
 </html>`
+
+    // Line numbers reported inside the iframe are made relative to the user's code
+    const markerLine = html.slice(0, html.indexOf(USER_CODE_MARKER)).split('\n').length
+    const wrapperStart = wrapperCode.indexOf(userCode)
+    const wrapperLines = wrapperStart > 0 ? wrapperCode.slice(0, wrapperStart).split('\n').length - 1 : 0
+
+    return html
+      .replace(LINE_OFFSET_MARKER, String(markerLine - 1 + wrapperLines))
+      .replace(USER_CODE_MARKER, () => wrapperCode)
   }
 
   if (!code.trim()) {
@@ -280,4 +328,39 @@ export function SceneRenderer({ code, library, isRunning }: SceneRendererProps)
       )}
     </div>
   )
+}
+
+/**
+ * Copies the scene's canvas out of the (same-origin) preview frame. WebGL
+ * clears its buffer once a frame is shown, so the copy is made in the frame's
+ * next animation frame, after the scene has drawn.
+ */
+function captureSceneCanvas(iframe: HTMLIFrameElement | null): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    const frameWindow = iframe?.contentWindow
+    const source = iframe?.contentDocument?.querySelector('canvas')
+    if (!frameWindow || !source || !source.width || !source.height) {
+      reject(new Error('There is no rendered scene to capture. Run the scene in the playground first.'))
+      return
+    }
+
+    let copied = false
+    const copy = () => {
+      if (copied) return
+      copied = true
+      const canvas = document.createElement('canvas')
+      canvas.width = source.width
+      canvas.height = source.height
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Images cannot be processed in this browser'))
+        return
+      }
+      context.drawImage(source, 0, 0)
+      resolve(canvas)
+    }
+
+    frameWindow.requestAnimationFrame(copy)
+    setTimeout(copy, CAPTURE_FRAME_TIMEOUT_MS)
+  })
 }
\ No newline at end of file
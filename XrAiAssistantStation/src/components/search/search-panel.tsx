@@ -0,0 +1,280 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Bot, Code, MessageSquare, Play, Search, User, X } from 'lucide-react'
+import { useAppStore } from '@/store/app-store'
+import { getEntryFile } from '@/lib/code-files'
+import { buildSearchIndex, MAX_SEARCH_RESULTS, SearchResult, searchIndex } from '@/lib/conversation-search'
+import { formatTimestamp } from '@/lib/utils'
+import toast from 'react-hot-toast'
+
+interface SearchPanelProps {
+  onClose: () => void
+}
+
+interface ModelOption {
+  key: string
+  provider: string
+  model: string
+  label: string
+}
+
+/**
+ * Searches the text and code of every saved conversation. A result jumps to
+ * its message, and code results can be opened in the playground directly.
+ */
+export function SearchPanel({ onClose }: SearchPanelProps) {
+  const {
+    conversations,
+    activeConversationId,
+    libraries,
+    providers,
+    isLoading,
+    focusMessage,
+    updateSettings,
+    setCurrentCode,
+    setCodeFiles,
+    clearPendingEdit,
+    setCurrentView
+  } = useAppStore()
+  const [query, setQuery] = useState('')
+  const [libraryFilter, setLibraryFilter] = useState('')
+  const [modelFilter, setModelFilter] = useState('')
+  // yyyy-mm-dd from the date inputs
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+
+  const index = useMemo(() => buildSearchIndex(conversations), [conversations])
+
+  // Only models that produced something searchable are offered
+  const modelOptions = useMemo(() => {
+    const options: ModelOption[] = []
+    index.documents.forEach(document => {
+      if (!document.provider || !document.model) return
+      const key = `${document.provider}:${document.model}`
+      if (options.some(option => option.key === key)) return
+      const provider = providers.find(p => p.id === document.provider)
+      const model = provider?.models.find(m => m.id === document.model)
+      options.push({
+        key,
+        provider: document.provider,
+        model: document.model,
+        label: `${model?.name || document.model} (${provider?.name || document.provider})`
+      })
+    })
+    return options.sort((a, b) => a.label.localeCompare(b.label))
+  }, [index, providers])
+
+  const results = useMemo(() => {
+    const model = modelOptions.find(option => option.key === modelFilter)
+    return searchIndex(index, query, {
+      library: libraryFilter || undefined,
+      provider: model?.provider,
+      model: model?.model,
+      // Whole local days
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined
+    })
+  }, [index, query, libraryFilter, modelFilter, modelOptions, fromDate, toDate])
+
+  const handleJump = (result: SearchResult) => {
+    const { conversationId, messageId } = result.document
+    // The reply being generated streams into the open conversation
+    if (isLoading && conversationId !== activeConversationId) {
+      toast.error('Wait for the current reply to finish before opening another conversation')
+      return
+    }
+    focusMessage(conversationId, messageId)
+    onClose()
+  }
+
+  const handleOpenCode = (result: SearchResult) => {
+    const { file, files = [], library } = result.document
+    if (!file) return
+
+    // The code only runs with the library it was written for
+    if (library && libraries.some(l => l.id === library)) {
+      updateSettings({ selectedLibrary: library })
+    }
+    clearPendingEdit()
+    if (files.length > 1) {
+      setCodeFiles(files, getEntryFile(files, library)?.path)
+    } else {
+      setCodeFiles([])
+      setCurrentCode(file.content)
+    }
+    setCurrentView('playground')
+    onClose()
+    toast.success(files.length > 1 ? `${files.length} files opened in the playground` : 'Code opened in the playground')
+  }
+
+  const hasFilters = !!(libraryFilter || modelFilter || fromDate || toDate)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 pt-[10vh]">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col overflow-hidden">
+        {/* Query */}
+        <div className="flex items-center gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+          <Search size={20} className="text-gray-400 flex-shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && onClose()}
+            placeholder="Search messages and code in all conversations…"
+            className="flex-1 min-w-0 bg-transparent text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none"
+          />
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-xs">
+          <select
+            value={libraryFilter}
+            onChange={(e) => setLibraryFilter(e.target.value)}
+            className="p-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          >
+            <option value="">All libraries</option>
+            {libraries.map(library => (
+              <option key={library.id} value={library.id}>{library.name}</option>
+            ))}
+          </select>
+          <select
+            value={modelFilter}
+            onChange={(e) => setModelFilter(e.target.value)}
+            className="p-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white max-w-[14rem]"
+          >
+            <option value="">All models</option>
+            {modelOptions.map(option => (
+              <option key={option.key} value={option.key}>{option.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+            From
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+            To
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+          </label>
+          {hasFilters && (
+            <button
+              onClick={() => {
+                setLibraryFilter('')
+                setModelFilter('')
+                setFromDate('')
+                setToDate('')
+              }}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto p-2">
+          {!query.trim() ? (
+            <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+              Search {conversations.length} conversation{conversations.length === 1 ? '' : 's'} by words in prompts, replies or generated code.
+            </p>
+          ) : results.length === 0 ? (
+            <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+              No matches{hasFilters ? ' with these filters' : ''}.
+            </p>
+          ) : (
+            <>
+              {results.map(result => {
+                const { document } = result
+                const library = libraries.find(l => l.id === document.library)
+                return (
+                  <div
+                    key={`${document.messageId}:${document.file?.path || ''}`}
+                    className="group p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800"
+                  >
+                    <div className="flex items-center gap-2 mb-1 text-xs text-gray-500 dark:text-gray-400">
+                      {document.file ? <Code size={12} /> : document.role === 'user' ? <User size={12} /> : <Bot size={12} />}
+                      <span className="font-medium text-gray-800 dark:text-gray-200 truncate">{document.conversationTitle}</span>
+                      {document.file && <span className="font-mono truncate">{document.file.path}</span>}
+                      <span className="flex-shrink-0">{formatTimestamp(document.timestamp)}</span>
+                      {library && (
+                        <span className="flex-shrink-0 bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded">{library.name}</span>
+                      )}
+                    </div>
+
+                    <button
+                      onClick={() => handleJump(result)}
+                      className={`block w-full text-left text-sm text-gray-700 dark:text-gray-300 line-clamp-3 ${
+                        document.file ? 'font-mono text-xs whitespace-pre-wrap' : ''
+                      }`}
+                      title="Jump to the message"
+                    >
+                      {highlightMatches(result)}
+                    </button>
+
+                    <div className="flex items-center gap-3 mt-1 text-xs">
+                      <button
+                        onClick={() => handleJump(result)}
+                        className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <MessageSquare size={12} />
+                        Jump to message
+                      </button>
+                      {document.file && (
+                        <button
+                          onClick={() => handleOpenCode(result)}
+                          className="flex items-center gap-1 text-green-600 dark:text-green-400 hover:underline"
+                        >
+                          <Play size={12} />
+                          Open in playground
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+              {results.length === MAX_SEARCH_RESULTS && (
+                <p className="p-2 text-xs text-center text-gray-500 dark:text-gray-400">
+                  Showing the best {MAX_SEARCH_RESULTS} matches; add words or filters to narrow them down.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function highlightMatches({ snippet, highlights }: SearchResult): React.ReactNode[] {
+  const nodes: React.ReactNode[] = []
+  let last = 0
+  highlights.forEach(({ start, end }) => {
+    if (start > last) nodes.push(snippet.slice(last, start))
+    nodes.push(
+      <mark key={start} className="bg-yellow-200 dark:bg-yellow-600/60 text-inherit rounded-sm">
+        {snippet.slice(start, end)}
+      </mark>
+    )
+    last = end
+  })
+  nodes.push(snippet.slice(last))
+  return nodes
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import { RotateCcw, Wand2 } from 'lucide-react'
+import { Library3D, useAppStore } from '@/store/app-store'
+import {
+  ALL_LIBRARIES,
+  classifyIntent,
+  DEFAULT_PROMPT_TEMPLATES,
+  getPromptTemplates,
+  getPromptVariables,
+  PROMPT_INTENTS,
+  PROMPT_VARIABLES,
+  PromptIntent,
+  PromptTemplate,
+  promptTemplateId,
+  renderPromptTemplate,
+  resolvePromptTemplate
+} from '@/lib/prompt-templates'
+import { formatSceneErrors } from '@/lib/scene-tools'
+
+interface PromptTemplateEditorProps {
+  // Only the user's edits and additions; shipped templates come from the code
+  templates: PromptTemplate[]
+  onChange: (templates: PromptTemplate[]) => void
+  libraries: Library3D[]
+  selectedLibrary: string
+}
+
+const SAMPLE_MESSAGE = 'Make the cube spin faster'
+
+/**
+ * Edits the template for one intent and library (or the fallback for all
+ * libraries) and previews it against the current playground state.
+ */
+export function PromptTemplateEditor({ templates, onChange, libraries, selectedLibrary }: PromptTemplateEditorProps) {
+  const { currentCode, sceneErrors } = useAppStore()
+  const [intent, setIntent] = useState<PromptIntent>('new-scene')
+  const [scope, setScope] = useState(ALL_LIBRARIES)
+  const [sampleMessage, setSampleMessage] = useState('')
+
+  const id = promptTemplateId(scope, intent)
+  const effective = getPromptTemplates(templates)
+  const previewLibrary = libraries.find(library => library.id === (scope === ALL_LIBRARIES ? selectedLibrary : scope))
+  // The template used for this scope: its own, or the all-libraries one it falls back to
+  const template = resolvePromptTemplate(effective, scope === ALL_LIBRARIES ? undefined : scope, intent)
+  const hasOwnTemplate = template.library === scope
+  const isEdited = templates.some(custom => custom.id === id)
+  const isShipped = DEFAULT_PROMPT_TEMPLATES.some(fallback => fallback.id === id)
+  const scopeName = scope === ALL_LIBRARIES ? 'all libraries' : previewLibrary?.name || scope
+  const intentLabel = PROMPT_INTENTS.find(option => option.id === intent)?.label || intent
+
+  const message = sampleMessage.trim() || SAMPLE_MESSAGE
+  const errors = formatSceneErrors(sceneErrors)
+  const detectedIntent = classifyIntent(message, { hasCode: currentCode.trim() !== '', hasErrors: errors !== '' })
+  const preview = renderPromptTemplate(template.body, getPromptVariables(message, previewLibrary, { currentCode, errors }))
+
+  const saveTemplate = (changes: Partial<Pick<PromptTemplate, 'name' | 'body'>>) => {
+    const base: PromptTemplate = hasOwnTemplate
+      ? template
+      : { id, name: `${previewLibrary?.name || scope}: ${intentLabel}`, library: scope, intent, body: template.body }
+    onChange([...templates.filter(custom => custom.id !== id), { ...base, ...changes }])
+  }
+
+  const removeTemplate = () => {
+    onChange(templates.filter(custom => custom.id !== id))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Intent
+          </label>
+          <select
+            value={intent}
+            onChange={(e) => setIntent(e.target.value as PromptIntent)}
+            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {PROMPT_INTENTS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Library
+          </label>
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value={ALL_LIBRARIES}>All libraries</option>
+            {libraries.map(library => (
+              <option key={library.id} value={library.id}>{library.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {hasOwnTemplate ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={template.name}
+            onChange={(e) => saveTemplate({ name: e.target.value })}
+            placeholder="Template name"
+            className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <textarea
+            value={template.body}
+            onChange={(e) => saveTemplate({ body: e.target.value })}
+            rows={7}
+            spellCheck={false}
+            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {isEdited && (
+            <button
+              type="button"
+              onClick={removeTemplate}
+              className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              <RotateCcw size={12} />
+              <span>{isShipped ? 'Restore the shipped template' : `Remove the ${scopeName} template`}</span>
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm text-gray-600 dark:text-gray-400">
+          <span>{scopeName} uses the all-libraries template &ldquo;{template.name}&rdquo;.</span>
+          <button
+            type="button"
+            onClick={() => saveTemplate({})}
+            className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Wand2 size={14} />
+            <span>Customize</span>
+          </button>
+        </div>
+      )}
+
+      <details className="text-xs text-gray-600 dark:text-gray-400">
+        <summary className="cursor-pointer select-none">Variables</summary>
+        <ul className="mt-2 space-y-1">
+          {PROMPT_VARIABLES.map(variable => (
+            <li key={variable.name}>
+              <code className="text-blue-600 dark:text-blue-400">{`{{${variable.name}}}`}</code> {variable.description}
+            </li>
+          ))}
+          <li>
+            <code className="text-blue-600 dark:text-blue-400">{'{{#errors}}…{{/errors}}'}</code> keeps the text only
+            when the variable is set; <code className="text-blue-600 dark:text-blue-400">{'{{^errors}}'}</code> only when it is empty
+          </li>
+        </ul>
+      </details>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Preview
+        </label>
+        <input
+          type="text"
+          value={sampleMessage}
+          onChange={(e) => setSampleMessage(e.target.value)}
+          placeholder={SAMPLE_MESSAGE}
+          className="w-full p-2 mb-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <pre className="p-3 max-h-48 overflow-auto bg-gray-50 dark:bg-gray-800 rounded-lg text-xs text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+          {preview}
+        </pre>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Rendered with {previewLibrary?.name || 'no library'} and the current playground code.
+          {' '}This message would be sent as{' '}
+          <strong>{PROMPT_INTENTS.find(option => option.id === detectedIntent)?.label}</strong>
+          {detectedIntent !== intent && ', not with this template'}.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,16 @@
 'use client'
 
-import { useState } from 'react'
-import { X, Eye, EyeOff, Save, RotateCcw } from 'lucide-react'
-import { useAppStore } from '@/store/app-store'
-import { getParameterDescription, validateApiKey } from '@/lib/utils'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { X, Eye, EyeOff, Save, RotateCcw, RefreshCw, Loader2, Server, Trash2 } from 'lucide-react'
+import { AIProvider, getCuratedModels, useAppStore } from '@/store/app-store'
+import { AIService } from '@/lib/ai-service'
+import { modelCatalog } from '@/lib/model-catalog'
+import type { ServerProxyStatus } from '@/lib/server/provider-credentials'
+import { clearResponseCache, getResponseCacheStats, MAX_CACHE_BYTES, MAX_CACHE_ENTRIES, ResponseCacheStats } from '@/lib/response-cache'
+import { formatCost, getSpend } from '@/lib/usage-cost'
+import { getProviderAdapter } from '@/lib/providers/registry'
+import { formatTimestamp, getParameterDescription, validateApiKey } from '@/lib/utils'
+import { PromptTemplateEditor } from './prompt-template-editor'
 import toast from 'react-hot-toast'
 
 interface SettingsPanelProps {
@@ -11,14 +18,27 @@ interface SettingsPanelProps {
 }
 
 export function SettingsPanel({ onClose }: SettingsPanelProps) {
-  const { settings, updateSettings, providers, libraries, getCurrentProvider, getCurrentModel } = useAppStore()
+  const { settings, updateSettings, providers, setProviders, updateProvider, libraries, spendLog } = useAppStore()
   const [localSettings, setLocalSettings] = useState(settings)
+  const [localProviders, setLocalProviders] = useState(providers)
   const [showApiKeys, setShowApiKeys] = useState<Record<string, boolean>>({})
   const [hasChanges, setHasChanges] = useState(false)
+  const [isRefreshingModels, setIsRefreshingModels] = useState(false)
+  const [modelsFetchedAt, setModelsFetchedAt] = useState<number | null>(null)
+  // null until the proxy has answered (or when it could not be reached)
+  const [proxyStatus, setProxyStatus] = useState<ServerProxyStatus | null>(null)
+  const [cacheStats, setCacheStats] = useState<ResponseCacheStats | null>(null)
 
-  const currentProvider = providers.find(p => p.id === localSettings.selectedProvider)
+  const currentProvider = localProviders.find(p => p.id === localSettings.selectedProvider)
+  const currentAdapter = currentProvider ? getProviderAdapter(currentProvider.adapter) : undefined
   const currentModel = currentProvider?.models.find(m => m.id === localSettings.selectedModel)
+  const curatedModels = currentProvider?.models.filter(m => m.source !== 'discovered') || []
+  const discoveredModels = currentProvider?.models.filter(m => m.source === 'discovered') || []
   const currentLibrary = libraries.find(l => l.id === localSettings.selectedLibrary)
+  const isProxyMode = localSettings.connectionMode === 'proxy'
+  // The latest edits, read by the catalog loader so typing a key or base URL does not reload it
+  const editsRef = useRef({ settings: localSettings, providers: localProviders })
+  editsRef.current = { settings: localSettings, providers: localProviders }
 
   const handleSettingChange = (key: keyof typeof settings, value: any) => {
     setLocalSettings(prev => ({ ...prev, [key]: value }))
@@ -33,11 +53,92 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
     setHasChanges(true)
   }
 
+  const handleBaseUrlChange = (providerId: string, value: string) => {
+    setLocalProviders(prev => prev.map(p => p.id === providerId ? { ...p, baseUrl: value } : p))
+    setHasChanges(true)
+  }
+
+  /**
+   * Merges curated models with the provider's live list (cached for a few hours).
+   * Automatic loads stay quiet on failure; manual refreshes report errors.
+   */
+  const loadModelCatalog = useCallback(async (provider: AIProvider, forceRefresh: boolean) => {
+    const adapter = getProviderAdapter(provider.adapter)
+    if (!adapter?.buildListModelsRequest) return
+
+    const { apiKeys, connectionMode, proxyAccessToken } = editsRef.current.settings
+    setIsRefreshingModels(true)
+    try {
+      const curated = getCuratedModels(provider.id)
+      const result = await modelCatalog.getModels(
+        provider,
+        // Custom endpoints have no curated list; keep what was discovered before
+        curated.length > 0 ? curated : provider.models.filter(m => m.source !== 'discovered'),
+        apiKeys[provider.id] || '',
+        {
+          forceRefresh,
+          keyOptional: adapter.capabilities.optionalApiKey,
+          connection: connectionMode,
+          proxyToken: proxyAccessToken
+        }
+      )
+
+      // Discovered models are catalog data, not unsaved edits, so they go straight to the store
+      setLocalProviders(prev => prev.map(p => p.id === provider.id ? { ...p, models: result.models } : p))
+      updateProvider(provider.id, { models: result.models })
+      setModelsFetchedAt(result.fetchedAt)
+
+      if (forceRefresh) {
+        const discoveredCount = result.models.filter(m => m.source === 'discovered').length
+        toast.success(`Loaded ${result.models.length} models (${discoveredCount} discovered)`)
+      }
+    } catch (error) {
+      if (forceRefresh) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        toast.error(`Model refresh failed: ${errorMessage}`)
+      }
+    } finally {
+      setIsRefreshingModels(false)
+    }
+  }, [updateProvider])
+
+  // Load the catalog for whichever provider is selected, again when the connection changes
+  const selectedProviderId = localSettings.selectedProvider
+  const connectionMode = localSettings.connectionMode
+  useEffect(() => {
+    const provider = editsRef.current.providers.find(p => p.id === selectedProviderId)
+    if (provider) {
+      loadModelCatalog(provider, false)
+    }
+  }, [selectedProviderId, connectionMode, loadModelCatalog])
+
+  useEffect(() => {
+    getResponseCacheStats()
+      .then(setCacheStats)
+      .catch(error => console.warn('Failed to read the response cache:', error))
+  }, [])
+
+  // Ask the proxy which providers it holds keys for
+  useEffect(() => {
+    if (!isProxyMode) return
+
+    const controller = new AbortController()
+    AIService.getInstance().getServerProxyStatus(controller.signal)
+      .then(setProxyStatus)
+      .catch(error => {
+        if (controller.signal.aborted) return
+        console.warn('Failed to load proxy provider status:', error)
+        setProxyStatus(null)
+      })
+    return () => controller.abort()
+  }, [isProxyMode])
+
   const toggleShowApiKey = (providerId: string) => {
     setShowApiKeys(prev => ({ ...prev, [providerId]: !prev[providerId] }))
   }
 
   const handleSave = () => {
+    setProviders(localProviders)
     updateSettings(localSettings)
     setHasChanges(false)
     toast.success('Settings saved successfully!')
@@ -46,10 +147,22 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
 
   const handleReset = () => {
     setLocalSettings(settings)
+    setLocalProviders(providers)
     setHasChanges(false)
     toast.success('Changes reset')
   }
 
+  // Takes effect immediately; it is not part of the saved settings
+  const handlePurgeCache = async () => {
+    try {
+      await clearResponseCache()
+      setCacheStats(await getResponseCacheStats())
+      toast.success('Response cache purged')
+    } catch (error) {
+      toast.error(`Could not purge the cache: ${error instanceof Error ? error.message : 'unknown error'}`)
+    }
+  }
+
   const parameterDescription = getParameterDescription(localSettings.temperature, localSettings.topP)
 
   return (
@@ -82,6 +195,25 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
               
               {/* Provider Selection */}
               <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Connection
+                  </label>
+                  <select
+                    value={localSettings.connectionMode}
+                    onChange={(e) => handleSettingChange('connectionMode', e.target.value)}
+                    className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="direct">Direct - API keys stored in this browser</option>
+                    <option value="proxy">Server proxy - API keys held by the Station server</option>
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {isProxyMode
+                      ? 'Requests go through /api/ai on this server, which reads provider keys from its environment. Use this when Station is hosted for a team.'
+                      : 'Requests go straight from the browser to each provider. Suitable for localhost only.'}
+                  </p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     AI Provider
@@ -91,14 +223,14 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                     onChange={(e) => {
                       handleSettingChange('selectedProvider', e.target.value)
                       // Reset model selection when provider changes
-                      const newProvider = providers.find(p => p.id === e.target.value)
+                      const newProvider = localProviders.find(p => p.id === e.target.value)
                       if (newProvider) {
                         handleSettingChange('selectedModel', newProvider.models[0]?.id || '')
                       }
                     }}
                     className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    {providers.map(provider => (
+                    {localProviders.map(provider => (
                       <option key={provider.id} value={provider.id}>
                         {provider.name}
                       </option>
@@ -106,23 +238,80 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                   </select>
                 </div>
 
-                {/* Model Selection */}
-                {currentProvider && (
+                {/* Endpoint for self-hosted OpenAI-compatible servers */}
+                {/* In proxy mode the server's CUSTOM_OPENAI_BASE_URL is used instead */}
+                {currentProvider && currentAdapter?.capabilities.optionalApiKey && !currentAdapter.servedByApp && !isProxyMode && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                      Model
+                      Base URL
                     </label>
+                    <input
+                      type="url"
+                      value={currentProvider.baseUrl}
+                      onChange={(e) => handleBaseUrlChange(currentProvider.id, e.target.value)}
+                      placeholder="http://localhost:11434/v1"
+                      className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Ollama: http://localhost:11434/v1 • LM Studio: http://localhost:1234/v1 • llama.cpp: http://localhost:8080/v1.
+                      The server must allow requests from this origin (CORS).
+                    </p>
+                  </div>
+                )}
+
+                {/* Model Selection */}
+                {currentProvider && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Model
+                      </label>
+                      {currentAdapter?.buildListModelsRequest && (
+                        <button
+                          type="button"
+                          onClick={() => loadModelCatalog(currentProvider, true)}
+                          disabled={isRefreshingModels}
+                          className="flex items-center space-x-1 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                        >
+                          {isRefreshingModels ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+                          <span>Refresh models</span>
+                        </button>
+                      )}
+                    </div>
+                    {currentProvider.models.length === 0 && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                        No models yet. Start your server and click &quot;Refresh models&quot;.
+                      </p>
+                    )}
                     <select
                       value={localSettings.selectedModel}
                       onChange={(e) => handleSettingChange('selectedModel', e.target.value)}
                       className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     >
-                      {currentProvider.models.map(model => (
-                        <option key={model.id} value={model.id}>
-                          {model.name} - {model.pricing}
-                        </option>
-                      ))}
+                      {curatedModels.length > 0 && (
+                        <optgroup label="Recommended">
+                          {curatedModels.map(model => (
+                            <option key={model.id} value={model.id}>
+                              {model.name} - {model.pricing}
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                      {discoveredModels.length > 0 && (
+                        <optgroup label={`Available from ${currentProvider.name}`}>
+                          {discoveredModels.map(model => (
+                            <option key={model.id} value={model.id}>
+                              {model.name} - {model.pricing}
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
                     </select>
+                    {modelsFetchedAt && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Model list updated {formatTimestamp(modelsFetchedAt)}
+                      </p>
+                    )}
                     {currentModel && (
                       <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                         {currentModel.description}
@@ -131,58 +320,303 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                   </div>
                 )}
 
-                {/* API Keys */}
-                <div className="space-y-3">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                    API Keys
+                {/* Structured code output */}
+                <label className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={localSettings.structuredOutput}
+                    onChange={(e) => handleSettingChange('structuredOutput', e.target.checked)}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Structured code output
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {currentAdapter?.capabilities.structuredOutput
+                        ? `${currentProvider?.name} returns replies as a list of files (JSON), so multi-file scenes reach the playground intact.`
+                        : `${currentProvider?.name || 'This provider'} has no structured output; code is read from fenced blocks labelled with file names.`}
+                    </span>
+                  </span>
+                </label>
+
+                {/* Extended thinking */}
+                {currentProvider?.adapter === 'anthropic' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Extended thinking budget (tokens)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1024"
+                      value={localSettings.thinkingBudget}
+                      onChange={(e) => handleSettingChange('thinkingBudget', Math.max(0, parseInt(e.target.value, 10) || 0))}
+                      className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      0 turns thinking off; the minimum is 1,024. Thinking replies ignore the temperature setting and are skipped for structured output and agent tool calls.
+                    </p>
+                  </div>
+                )}
+
+                {/* Agent mode */}
+                <label className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={localSettings.agentMode}
+                    onChange={(e) => handleSettingChange('agentMode', e.target.checked)}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Agent mode
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {currentAdapter?.capabilities.toolCalling
+                        ? 'The assistant reads, patches and runs the playground code itself through tool calls, showing each step in the chat.'
+                        : `${currentProvider?.name || 'This provider'} does not support tool calling; replies stay in normal chat mode.`}
+                    </span>
+                  </span>
+                </label>
+
+                {localSettings.agentMode && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Max tool steps
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="20"
+                      step="1"
+                      value={localSettings.maxAgentSteps}
+                      onChange={(e) => handleSettingChange('maxAgentSteps', Math.min(20, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                      className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Model round trips that may call tools before it must give its final answer.
+                    </p>
+                  </div>
+                )}
+
+                {/* Auto-fix */}
+                <label className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={localSettings.autoFix}
+                    onChange={(e) => handleSettingChange('autoFix', e.target.checked)}
+                    className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Auto-fix runtime errors
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      When a Babylon.js or Three.js scene throws, send the code and error to the model, apply its fix and run again. Each attempt is posted in the chat.
+                    </span>
+                  </span>
+                </label>
+
+                {localSettings.autoFix && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Max fix attempts
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="10"
+                      step="1"
+                      value={localSettings.maxAutoFixAttempts}
+                      onChange={(e) => handleSettingChange('maxAutoFixAttempts', Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                      className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Attempts per piece of code; editing the code starts a new count.
+                    </p>
+                  </div>
+                )}
+
+                {/* Response cache */}
+                <div>
+                  <label className="flex items-start space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={localSettings.responseCache}
+                      onChange={(e) => handleSettingChange('responseCache', e.target.checked)}
+                      className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Cache responses
+                      </span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        Repeating a prompt with the same model, history, code and parameters replays the stored reply instead
+                        of calling the provider. Kept in this browser, up to {MAX_CACHE_ENTRIES} replies
+                        or {formatMegabytes(MAX_CACHE_BYTES)}; agent-mode replies are never cached.
+                      </span>
+                    </span>
                   </label>
-                  {providers.map(provider => {
-                    const validation = validateApiKey(localSettings.apiKeys[provider.id] || '', provider.id)
-                    const isCurrentProvider = provider.id === localSettings.selectedProvider
-                    return (
-                      <div key={provider.id} className="relative">
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
-                          {provider.name}
-                          {isCurrentProvider && (
-                            <span className="ml-2 px-2 py-0.5 text-xs bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded">
-                              Current
+                  {cacheStats && (
+                    <div className="flex items-center justify-between mt-2 ml-7 text-xs text-gray-500 dark:text-gray-400">
+                      <span>{cacheStats.entries} cached {cacheStats.entries === 1 ? 'reply' : 'replies'} ({formatMegabytes(cacheStats.bytes)})</span>
+                      <button
+                        type="button"
+                        onClick={handlePurgeCache}
+                        disabled={cacheStats.entries === 0}
+                        className="flex items-center space-x-1 px-2 py-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Trash2 size={12} />
+                        <span>Purge cache</span>
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Server-side credentials (proxy mode) */}
+                {isProxyMode && (
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Server Credentials
+                    </label>
+                    <div className="relative">
+                      <input
+                        type={showApiKeys.proxy ? 'text' : 'password'}
+                        value={localSettings.proxyAccessToken}
+                        onChange={(e) => handleSettingChange('proxyAccessToken', e.target.value)}
+                        placeholder="Proxy access token (PROXY_ACCESS_TOKEN on the server)"
+                        className="w-full p-3 pr-12 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => toggleShowApiKey('proxy')}
+                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      >
+                        {showApiKeys.proxy ? <EyeOff size={16} /> : <Eye size={16} />}
+                      </button>
+                    </div>
+                    {proxyStatus === null ? (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Could not read the proxy status. Check that the Station server is running.
+                      </p>
+                    ) : !proxyStatus.enabled ? (
+                      <p className="text-xs text-red-600 dark:text-red-400">
+                        The proxy is disabled until PROXY_ACCESS_TOKEN is set on the server.
+                      </p>
+                    ) : (
+                      localProviders.filter(provider => !getProviderAdapter(provider.adapter)?.servedByApp).map(provider => {
+                        const status = proxyStatus.providers.find(s => s.id === provider.id)
+                        return (
+                          <div key={provider.id} className="flex items-center justify-between text-sm">
+                            <span className="flex items-center space-x-2 text-gray-700 dark:text-gray-300">
+                              <Server size={14} />
+                              <span>{provider.name}</span>
                             </span>
+                            {status?.configured ? (
+                              <span className="text-xs text-green-600 dark:text-green-400">✓ Configured on server</span>
+                            ) : (
+                              <span className="text-xs text-gray-500 dark:text-gray-400">
+                                {status ? `Set ${status.baseUrlEnv || status.apiKeyEnv} on the server` : 'Not available via proxy'}
+                              </span>
+                            )}
+                          </div>
+                        )
+                      })
+                    )}
+                  </div>
+                )}
+
+                {/* API Keys */}
+                {!isProxyMode && (
+                  <div className="space-y-3">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      API Keys
+                    </label>
+                    {localProviders.filter(provider => !getProviderAdapter(provider.adapter)?.servedByApp).map(provider => {
+                      const apiKey = localSettings.apiKeys[provider.id] || ''
+                      const keyOptional = getProviderAdapter(provider.adapter)?.capabilities.optionalApiKey
+                      const validation = keyOptional && !apiKey
+                        ? { isValid: true, message: 'No API key needed for most local servers' }
+                        : validateApiKey(apiKey, provider.id)
+                      const isCurrentProvider = provider.id === localSettings.selectedProvider
+                      return (
+                        <div key={provider.id} className="relative">
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                            {provider.name}
+                            {isCurrentProvider && (
+                              <span className="ml-2 px-2 py-0.5 text-xs bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded">
+                                Current
+                              </span>
+                            )}
+                          </label>
+                          <div className="relative">
+                            <input
+                              type={showApiKeys[provider.id] ? 'text' : 'password'}
+                              value={localSettings.apiKeys[provider.id] || ''}
+                              onChange={(e) => handleApiKeyChange(provider.id, e.target.value)}
+                              placeholder={keyOptional ? 'Optional API key' : `Enter your ${provider.name} API key`}
+                              className={`w-full p-3 pr-12 border rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                                isCurrentProvider && !validation.isValid 
+                                  ? 'border-red-300 dark:border-red-600' 
+                                  : 'border-gray-300 dark:border-gray-600'
+                              }`}
+                            />
+                            <button
+                              type="button"
+                              onClick={() => toggleShowApiKey(provider.id)}
+                              className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                            >
+                              {showApiKeys[provider.id] ? <EyeOff size={16} /> : <Eye size={16} />}
+                            </button>
+                          </div>
+                          {isCurrentProvider && !validation.isValid && (
+                            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                              {validation.message}
+                            </p>
+                          )}
+                          {isCurrentProvider && validation.isValid && (
+                            <p className="text-xs text-green-600 dark:text-green-400 mt-1">
+                              ✓ {validation.message}
+                            </p>
                           )}
-                        </label>
-                        <div className="relative">
-                          <input
-                            type={showApiKeys[provider.id] ? 'text' : 'password'}
-                            value={localSettings.apiKeys[provider.id] || ''}
-                            onChange={(e) => handleApiKeyChange(provider.id, e.target.value)}
-                            placeholder={`Enter your ${provider.name} API key`}
-                            className={`w-full p-3 pr-12 border rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                              isCurrentProvider && !validation.isValid 
-                                ? 'border-red-300 dark:border-red-600' 
-                                : 'border-gray-300 dark:border-gray-600'
-                            }`}
-                          />
-                          <button
-                            type="button"
-                            onClick={() => toggleShowApiKey(provider.id)}
-                            className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-                          >
-                            {showApiKeys[provider.id] ? <EyeOff size={16} /> : <Eye size={16} />}
-                          </button>
                         </div>
-                        {isCurrentProvider && !validation.isValid && (
-                          <p className="text-xs text-red-600 dark:text-red-400 mt-1">
-                            {validation.message}
-                          </p>
-                        )}
-                        {isCurrentProvider && validation.isValid && (
-                          <p className="text-xs text-green-600 dark:text-green-400 mt-1">
-                            ✓ {validation.message}
-                          </p>
-                        )}
-                      </div>
-                    )
-                  })}
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            </section>
+
+            {/* Integrations (non-chat services) */}
+            <section>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                Integrations
+              </h3>
+              
+              <div>
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                  CodeSandbox (optional)
+                </label>
+                <div className="relative">
+                  <input
+                    type={showApiKeys.codesandbox ? 'text' : 'password'}
+                    value={localSettings.apiKeys.codesandbox || ''}
+                    onChange={(e) => handleApiKeyChange('codesandbox', e.target.value)}
+                    placeholder="Enter your CodeSandbox API key"
+                    className="w-full p-3 pr-12 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => toggleShowApiKey('codesandbox')}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  >
+                    {showApiKeys.codesandbox ? <EyeOff size={16} /> : <Eye size={16} />}
+                  </button>
                 </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Used for deploying React Three Fiber scenes to CodeSandbox. Sharing works without a key.
+                </p>
               </div>
             </section>
 
@@ -242,6 +676,41 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
               </div>
             </section>
 
+            {/* Spending Limits */}
+            <section>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                Spending Limits
+              </h3>
+              
+              <div className="grid grid-cols-2 gap-4">
+                {([
+                  { key: 'dailySpendLimit', label: 'Daily limit (USD)', spent: getSpend(spendLog, 'daily') },
+                  { key: 'monthlySpendLimit', label: 'Monthly limit (USD)', spent: getSpend(spendLog, 'monthly') }
+                ] as const).map(({ key, label, spent }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={localSettings[key] ?? ''}
+                      onChange={(e) => handleSettingChange(key, e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value)))}
+                      placeholder="No limit"
+                      className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Spent so far: {formatCost(spent)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                Requests are blocked once a limit is reached. Costs are calculated from the token usage each provider reports.
+              </p>
+            </section>
+
             {/* 3D Library Selection */}
             <section>
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
@@ -293,6 +762,24 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                 </p>
               </div>
             </section>
+
+            {/* Prompt Templates */}
+            <section>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                Prompt Templates
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Each message is classified as a new scene, a change, a question or a bug report and sent through
+                that intent&apos;s template. Libraries can have their own templates; otherwise the all-libraries one is used.
+              </p>
+
+              <PromptTemplateEditor
+                templates={localSettings.promptTemplates}
+                onChange={(templates) => handleSettingChange('promptTemplates', templates)}
+                libraries={libraries}
+                selectedLibrary={localSettings.selectedLibrary}
+              />
+            </section>
           </div>
         </div>
 
@@ -326,4 +813,8 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
       </div>
     </div>
   )
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+import type { ChatMessage } from '@/store/app-store'
+import { AIService, GenerateOptions, TokenUsage } from './ai-service'
+import type { ConversationTurn, ToolResult } from './conversation-context'
+import { splitReasoning } from './reasoning'
+import { executeSceneTool, SCENE_TOOLS } from './scene-tools'
+
+export const AGENT_INSTRUCTIONS = [
+  'You can edit and run the playground yourself with the provided tools.',
+  'Read the code with get_current_code before changing it, prefer apply_patch for small edits,',
+  'then call run_scene and fix any errors it reports. Finish with a short summary of what you changed;',
+  'do not repeat the full code in your reply.'
+].join(' ')
+
+export interface AgentToolStep {
+  // The provider's tool call id
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+  status: 'running' | 'done' | 'error'
+  result?: string
+}
+
+export interface AgentLoopOptions extends Omit<GenerateOptions, 'tools' | 'toolChoice' | 'continuation'> {
+  // Model round trips that may call tools; one more follows without tools if all are used
+  maxSteps: number
+}
+
+export interface AgentLoopHandlers {
+  // Raw text, including any <think> blocks
+  onText: (delta: string) => void
+  onReasoning?: (delta: string) => void
+  onStepsChange: (steps: AgentToolStep[]) => void
+}
+
+export interface AgentLoopResult {
+  // Summed over every round trip
+  usage?: TokenUsage
+  finishReason?: string
+  steps: AgentToolStep[]
+}
+
+/**
+ * Lets the model work on the playground through SCENE_TOOLS: each round trip
+ * streams the model's text, runs the tools it asked for and sends the results
+ * back, until it answers without tool calls or the step budget runs out.
+ */
+export async function runAgentLoop(
+  history: ChatMessage[],
+  options: AgentLoopOptions,
+  handlers: AgentLoopHandlers
+): Promise<AgentLoopResult> {
+  const { maxSteps, ...generateOptions } = options
+  const aiService = AIService.getInstance()
+  const continuation: ConversationTurn[] = []
+  let steps: AgentToolStep[] = []
+  let usage: TokenUsage | undefined
+  let hasText = false
+
+  for (let round = 0; ; round++) {
+    const outOfSteps = round >= maxSteps
+    let text = ''
+    let final: { toolCalls?: ConversationTurn['toolCalls']; finishReason?: string } = {}
+
+    await aiService.generateStreamingResponse(history, {
+      ...generateOptions,
+      tools: SCENE_TOOLS,
+      toolChoice: outOfSteps ? 'none' : 'auto',
+      continuation: [...continuation]
+    }, (chunk) => {
+      if (!chunk.done) {
+        if (chunk.reasoning) handlers.onReasoning?.(chunk.reasoning)
+        if (!chunk.content) return
+        // Separate text from different round trips
+        const delta = text === '' && hasText ? `\n\n${chunk.content}` : chunk.content
+        text += chunk.content
+        hasText = true
+        handlers.onText(delta)
+        return
+      }
+      usage = addUsage(usage, chunk.usage)
+      final = { toolCalls: chunk.toolCalls, finishReason: chunk.finishReason }
+    })
+
+    if (!final.toolCalls || final.toolCalls.length === 0 || outOfSteps) {
+      return { usage, finishReason: final.finishReason, steps }
+    }
+
+    continuation.push({ role: 'assistant', content: splitReasoning(text).answer, toolCalls: final.toolCalls })
+
+    const results: ToolResult[] = []
+    for (let i = 0; i < final.toolCalls.length; i++) {
+      const call = final.toolCalls[i]
+      steps = [...steps, { id: call.id, name: call.name, arguments: call.arguments, status: 'running' }]
+      handlers.onStepsChange(steps)
+
+      const outcome = await executeSceneTool(call.name, call.arguments, options.signal)
+      steps = steps.map(step => step.id === call.id
+        ? { ...step, status: outcome.isError ? 'error' : 'done', result: outcome.content }
+        : step)
+      handlers.onStepsChange(steps)
+      results.push({ toolCallId: call.id, name: call.name, content: outcome.content, isError: outcome.isError })
+    }
+
+    continuation.push({ role: 'user', content: '', toolResults: results })
+  }
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return total
+  if (!total) return usage
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens
+  }
+}
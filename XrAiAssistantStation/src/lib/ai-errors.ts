@@ -0,0 +1,187 @@
+/**
+ * Typed failures from AI providers. AIService turns non-OK responses, stream
+ * error events and network failures into one of these so callers can react
+ * (retry, ask for a new key, pick another model) instead of showing raw bodies.
+ */
+export class AIProviderError extends Error {
+  readonly provider: string
+  readonly status?: number
+  // Transient failures that AIService retries with backoff
+  readonly retryable: boolean
+  // Raw response body, kept for logging
+  readonly details?: string
+
+  constructor(
+    message: string,
+    options: { provider: string; status?: number; retryable?: boolean; details?: string }
+  ) {
+    super(message)
+    this.name = 'AIProviderError'
+    this.provider = options.provider
+    this.status = options.status
+    this.retryable = options.retryable ?? false
+    this.details = options.details
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
+
+export class AuthenticationError extends AIProviderError {
+  constructor(message: string, options: { provider: string; status?: number; details?: string }) {
+    super(message, { ...options, retryable: false })
+    this.name = 'AuthenticationError'
+  }
+}
+
+export class RateLimitError extends AIProviderError {
+  // Server-provided wait from the Retry-After header, when present
+  readonly retryAfterMs?: number
+
+  constructor(message: string, options: { provider: string; status?: number; details?: string; retryAfterMs?: number }) {
+    super(message, { ...options, retryable: true })
+    this.name = 'RateLimitError'
+    this.retryAfterMs = options.retryAfterMs
+  }
+}
+
+export class ContextLengthExceededError extends AIProviderError {
+  constructor(message: string, options: { provider: string; status?: number; details?: string }) {
+    super(message, { ...options, retryable: false })
+    this.name = 'ContextLengthExceededError'
+  }
+}
+
+export class ModelNotFoundError extends AIProviderError {
+  constructor(message: string, options: { provider: string; status?: number; details?: string }) {
+    super(message, { ...options, retryable: false })
+    this.name = 'ModelNotFoundError'
+  }
+}
+
+export class ProviderUnavailableError extends AIProviderError {
+  readonly retryAfterMs?: number
+
+  constructor(message: string, options: { provider: string; status?: number; details?: string; retryAfterMs?: number }) {
+    super(message, { ...options, retryable: true })
+    this.name = 'ProviderUnavailableError'
+    this.retryAfterMs = options.retryAfterMs
+  }
+}
+
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|context window|maximum context|too many tokens|prompt is too long|max_tokens.*exceed/i
+const MODEL_NOT_FOUND_PATTERN = /model[_ ]not[_ ]found|model .*does not exist|unknown model|no such model|not_found_error/i
+
+/**
+ * Builds the typed error for a non-OK HTTP response.
+ */
+export function createProviderError(
+  provider: string,
+  status: number,
+  body: string,
+  headers?: Headers
+): AIProviderError {
+  const message = extractErrorMessage(body) || `HTTP ${status}`
+  const options = { provider, status, details: body }
+  const retryAfterMs = headers ? parseRetryAfter(headers) : undefined
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(`${provider} rejected the API key: ${message}`, options)
+  }
+  if (status === 429) {
+    return new RateLimitError(`${provider} rate limit reached: ${message}`, { ...options, retryAfterMs })
+  }
+  if (CONTEXT_LENGTH_PATTERN.test(message) && (status === 400 || status === 413 || status === 422)) {
+    return new ContextLengthExceededError(`${provider}: conversation is too long for this model (${message})`, options)
+  }
+  if (status === 404 || MODEL_NOT_FOUND_PATTERN.test(message)) {
+    return new ModelNotFoundError(`${provider}: model not found (${message})`, options)
+  }
+  // 529 is Anthropic's "overloaded"
+  if (status >= 500 || status === 408) {
+    return new ProviderUnavailableError(`${provider} is temporarily unavailable (${status}): ${message}`, { ...options, retryAfterMs })
+  }
+  return new AIProviderError(`${provider} API error (${status}): ${message}`, options)
+}
+
+/**
+ * Builds the typed error for an error event received mid-stream.
+ */
+export function createStreamError(provider: string, type: string | undefined, message: string): AIProviderError {
+  const options = { provider, details: message }
+
+  if (type === 'rate_limit_error' || type === 'rate_limit_exceeded') {
+    return new RateLimitError(`${provider} rate limit reached: ${message}`, options)
+  }
+  if (type === 'overloaded_error' || type === 'api_error' || type === 'server_error') {
+    return new ProviderUnavailableError(`${provider} is temporarily unavailable: ${message}`, options)
+  }
+  if (type === 'authentication_error' || type === 'permission_error') {
+    return new AuthenticationError(`${provider} rejected the API key: ${message}`, options)
+  }
+  if (CONTEXT_LENGTH_PATTERN.test(message)) {
+    return new ContextLengthExceededError(`${provider}: conversation is too long for this model (${message})`, options)
+  }
+  return new AIProviderError(`${provider} stream error: ${message}`, options)
+}
+
+/**
+ * `fetch` itself failed (offline, DNS, CORS). Treated as transient.
+ */
+export function createNetworkError(provider: string, error: unknown): ProviderUnavailableError {
+  const reason = error instanceof Error ? error.message : String(error)
+  return new ProviderUnavailableError(`Could not reach ${provider}: ${reason}`, { provider, details: reason })
+}
+
+/**
+ * Reads `retry-after-ms` or `Retry-After` (seconds or an HTTP date) in milliseconds.
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfterMs = headers.get('retry-after-ms')
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs))
+  }
+
+  const retryAfter = headers.get('retry-after')
+  if (!retryAfter) return undefined
+
+  const seconds = Number(retryAfter)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(retryAfter)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * What the user can do about an error, for the chat error bubble.
+ */
+export function getErrorGuidance(error: unknown): string {
+  if (error instanceof AuthenticationError) {
+    return `Open Settings and check your ${error.provider} API key (in proxy mode, the key set on the server and your proxy access token). It may be missing, mistyped or revoked.`
+  }
+  if (error instanceof RateLimitError) {
+    return `${error.provider} is rate limiting requests. Wait a minute and try again, or switch to another model or provider in Settings.`
+  }
+  if (error instanceof ContextLengthExceededError) {
+    return 'This conversation is too long for the selected model. Clear the chat, or pick a model with a larger context window in Settings.'
+  }
+  if (error instanceof ModelNotFoundError) {
+    return `${error.provider} does not offer this model (it may have been retired). Choose another model in Settings or refresh the model list.`
+  }
+  if (error instanceof ProviderUnavailableError) {
+    return `${error.provider} could not be reached or is overloaded. Check your connection and try again in a moment.`
+  }
+  return 'Please try again. If the problem continues, check your settings.'
+}
+
+function extractErrorMessage(body: string): string {
+  try {
+    const parsed = JSON.parse(body)
+    const error = parsed.error ?? parsed
+    if (typeof error === 'string') return error
+    return error?.message || parsed.message || ''
+  } catch (e) {
+    return body.trim().slice(0, 300)
+  }
+}
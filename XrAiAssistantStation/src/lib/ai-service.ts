@@ -1,18 +1,116 @@
-import { useAppStore } from '@/store/app-store'
-
-export interface AIResponse {
-  content: string
+import type { ChatMessage } from '@/store/app-store'
+import {
+  AIProviderError,
+  createNetworkError,
+  createProviderError,
+  ProviderUnavailableError,
+  RateLimitError
+} from './ai-errors'
+import { ConversationTurn, fitConversationToBudget, toConversationTurns, ToolCall } from './conversation-context'
+import { parseToolArguments } from './providers/openai-chat'
+import { joinReasoning, splitReasoning } from './reasoning'
+import { getProviderAdapter } from './providers/registry'
+import { readServerSentEvents } from './providers/sse'
+import { CODE_FILES_SCHEMA_NAME } from './providers/structured-output'
+import { CachedResponse, getCachedResponse, getResponseCacheKey, isResponseCacheAvailable, putCachedResponse } from './response-cache'
+import type {
+  AIResponse,
+  DiscoveredModel,
+  ProviderAdapter,
+  ProviderRequest,
+  ProviderRequestParams,
+  ProxyChatRequest,
+  ResponseFormat,
+  StreamingResponse,
+  TokenUsage,
+  ToolDefinition
+} from './providers/types'
+import type { ServerProxyStatus } from './server/provider-credentials'
+
+export type {
+  AIResponse,
+  DiscoveredModel,
+  ResponseFormat,
+  StreamingResponse,
+  TokenUsage,
+  ToolDefinition
+} from './providers/types'
+
+// 'direct' calls providers from the browser with the user's keys; 'proxy'
+// goes through this app's /api/ai routes, which hold the keys server-side
+export type ConnectionMode = 'direct' | 'proxy'
+
+export interface GenerateOptions {
+  // AIProvider.id, used in messages
+  provider: string
+  // Registered adapter id; defaults to the provider id
+  adapter?: string
+  // Overrides the adapter's default endpoint
+  baseUrl?: string
   model: string
-  usage?: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
-  }
+  // Ignored in proxy mode
+  apiKey: string
+  connection?: ConnectionMode
+  // Shared secret the proxy routes require (PROXY_ACCESS_TOKEN on the server)
+  proxyToken?: string
+  temperature?: number
+  topP?: number
+  systemPrompt?: string
+  maxTokens?: number
+  // 'code-files' falls back to plain text for adapters without structured output
+  responseFormat?: ResponseFormat
+  // Tools the model may call; requires an adapter with capabilities.toolCalling
+  tools?: ToolDefinition[]
+  toolChoice?: 'auto' | 'none'
+  // Extended thinking budget in tokens for providers that offer it (Anthropic); 0 or unset turns it off
+  thinkingBudget?: number
+  // The model accepts images (see supportsImageInput). Without it, attachments
+  // in the history become a text note and a new one is refused
+  imageInput?: boolean
+  // Turns appended after the (trimmed) history and never trimmed themselves:
+  // the tool calls and results of an agent loop in progress
+  continuation?: ConversationTurn[]
+  // Model context window used to trim old turns; defaults to DEFAULT_CONTEXT_WINDOW
+  contextWindow?: number
+  // Aborts the request and any in-flight stream
+  signal?: AbortSignal
+  // Replays an identical earlier streaming reply from the response cache and
+  // stores new ones. Requests with tools are never cached
+  cache?: boolean
+  // Retries for rate limits and transient server errors before any output arrives
+  maxRetries?: number
+  onRetry?: (info: RetryInfo) => void
+}
+
+export interface RetryInfo {
+  attempt: number
+  delayMs: number
+  error: AIProviderError
 }
 
-export interface StreamingResponse {
-  content: string
-  done: boolean
+const PROXY_CHAT_PATH = '/api/ai/chat'
+const PROXY_MODELS_PATH = '/api/ai/models'
+const PROXY_PROVIDERS_PATH = '/api/ai/providers'
+// Must match PROXY_TOKEN_HEADER in server/proxy-access, which the browser cannot import
+const PROXY_TOKEN_HEADER = 'X-Station-Token'
+
+const DEFAULT_MAX_RETRIES = 3
+const BASE_RETRY_DELAY_MS = 1000
+// Waits longer than this (e.g. a daily quota's Retry-After) fail immediately instead
+const MAX_RETRY_DELAY_MS = 30000
+
+// Cached replies stream back at roughly the pace of a fast provider
+const REPLAY_CHUNK_SIZE = 24
+const REPLAY_CHUNK_DELAY_MS = 16
+// Only replies that ended on their own are cached; a reply cut off by the token limit is not
+const COMPLETE_FINISH_REASONS = ['stop', 'end_turn']
+
+/**
+ * True when a request was cancelled through its AbortSignal rather than failing.
+ */
+export function isAbortError(error: unknown): boolean {
+  // DOMException is not an Error subclass in every runtime, so compare by name
+  return typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError'
 }
 
 export class AIService {
@@ -25,312 +123,399 @@ export class AIService {
     return AIService.instance
   }
 
+  /**
+   * Generates a reply for either a single prompt or a full chat history.
+   * Histories are trimmed (oldest first) to fit the model's context window.
+   */
   async generateResponse(
-    prompt: string,
-    options: {
-      provider: string
-      model: string
-      apiKey: string
-      temperature?: number
-      topP?: number
-      systemPrompt?: string
-      maxTokens?: number
-    }
+    input: string | ChatMessage[],
+    options: GenerateOptions
   ): Promise<AIResponse> {
-    const { provider, model, apiKey, temperature = 0.7, topP = 0.9, systemPrompt = '', maxTokens = 2048 } = options
-
-    if (!apiKey || apiKey.trim() === '') {
-      throw new Error(`API key required for ${provider}`)
+    const adapter = this.resolveAdapter(options)
+    const params = this.prepareRequest(adapter, input, options, false)
+
+    const response = await this.send(adapter, params, options)
+    const result = adapter.parseResponse(await response.json())
+
+    // A forced code_files call is the structured answer, not a tool request
+    const structured = result.toolCalls?.find(call => call.name === CODE_FILES_SCHEMA_NAME)
+    if (structured) {
+      const toolCalls = result.toolCalls?.filter(call => call !== structured)
+      return {
+        ...result,
+        content: JSON.stringify(structured.arguments),
+        toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined
+      }
     }
 
-    switch (provider) {
-      case 'together':
-        return this.callTogetherAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens })
-      case 'openai':
-        return this.callOpenAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens })
-      case 'anthropic':
-        return this.callAnthropic({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens })
-      default:
-        throw new Error(`Unsupported AI provider: ${provider}`)
+    // Inline <think> blocks join whatever reasoning the provider returned separately
+    const parts = splitReasoning(result.content)
+    return {
+      ...result,
+      content: parts.answer,
+      reasoning: joinReasoning(result.reasoning, parts.reasoning) || undefined
     }
   }
 
   async generateStreamingResponse(
-    prompt: string,
-    options: {
-      provider: string
-      model: string
-      apiKey: string
-      temperature?: number
-      topP?: number
-      systemPrompt?: string
-      maxTokens?: number
-    },
+    input: string | ChatMessage[],
+    options: GenerateOptions,
     onChunk: (chunk: StreamingResponse) => void
   ): Promise<void> {
-    const { provider, model, apiKey, temperature = 0.7, topP = 0.9, systemPrompt = '', maxTokens = 2048 } = options
+    const adapter = this.resolveAdapter(options)
+    if (!adapter.capabilities.streaming) {
+      throw new Error(`${adapter.name} does not support streaming`)
+    }
+    const params = this.prepareRequest(adapter, input, options, true)
+
+    const cacheKey = options.cache && !params.tools?.length && isResponseCacheAvailable()
+      ? await getResponseCacheKey(options.provider, params)
+      : undefined
+    const cached = cacheKey ? await getCachedResponse(cacheKey) : undefined
+    if (cached) {
+      await this.replay(cached, onChunk, options.signal)
+      return
+    }
 
-    if (!apiKey || apiKey.trim() === '') {
-      throw new Error(`API key required for ${provider}`)
+    const response = await this.send(adapter, params, options)
+
+    // What was streamed, kept for the cache
+    let content = ''
+    let reasoning = ''
+    let usage: Partial<TokenUsage> | undefined
+    let finishReason: string | undefined
+    let finished = false
+    // Tool calls assembled from their streamed fragments, keyed by index
+    const pendingCalls: Record<number, { id: string; name: string; json: string }> = {}
+
+    await readServerSentEvents(response, (data) => {
+      const result = adapter.parseStreamChunk(data)
+      if (!result) return true
+
+      if (result.reasoning) {
+        reasoning += result.reasoning
+        onChunk({ content: '', reasoning: result.reasoning, done: false })
+      }
+      if (result.content) {
+        content += result.content
+        onChunk({ content: result.content, done: false })
+      }
+      for (const delta of result.toolCalls || []) {
+        const call = pendingCalls[delta.index] || (pendingCalls[delta.index] = { id: '', name: '', json: '' })
+        if (delta.id) call.id = delta.id
+        if (delta.name) call.name = delta.name
+        if (!delta.argumentsDelta) continue
+
+        // The structured-output tool's arguments are the answer itself, so they stream as content
+        if (call.name === CODE_FILES_SCHEMA_NAME) {
+          content += delta.argumentsDelta
+          onChunk({ content: delta.argumentsDelta, done: false })
+        } else {
+          call.json += delta.argumentsDelta
+        }
+      }
+      if (result.usage) {
+        usage = { ...usage, ...result.usage }
+      }
+      if (result.finishReason) {
+        finishReason = result.finishReason
+      }
+      if (result.done) {
+        finished = true
+        return false
+      }
+      return true
+    })
+
+    if (!finished && !finishReason) {
+      throw new ProviderUnavailableError(`${adapter.name} stream ended unexpectedly`, { provider: adapter.name })
     }
 
-    switch (provider) {
-      case 'together':
-        return this.streamTogetherAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens }, onChunk)
-      case 'openai':
-        return this.streamOpenAI({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens }, onChunk)
-      case 'anthropic':
-        return this.streamAnthropic({ prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens }, onChunk)
-      default:
-        throw new Error(`Unsupported AI provider: ${provider}`)
+    const toolCalls: ToolCall[] = Object.keys(pendingCalls)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map(index => pendingCalls[index])
+      .filter(call => call.name && call.name !== CODE_FILES_SCHEMA_NAME)
+      .map(call => ({ id: call.id, name: call.name, arguments: parseToolArguments(call.json) }))
+
+    onChunk({
+      content: '',
+      done: true,
+      usage: this.completeUsage(usage),
+      finishReason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    })
+
+    if (cacheKey && finishReason && COMPLETE_FINISH_REASONS.indexOf(finishReason) !== -1) {
+      await putCachedResponse({
+        key: cacheKey,
+        provider: options.provider,
+        model: params.model,
+        content,
+        reasoning: reasoning || undefined,
+        usage: this.completeUsage(usage),
+        finishReason
+      })
     }
   }
 
-  private async callTogetherAI(options: {
-    prompt: string
-    model: string
-    apiKey: string
-    temperature: number
-    topP: number
-    systemPrompt: string
-    maxTokens: number
-  }): Promise<AIResponse> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens } = options
-
-    const messages = []
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt })
+  /**
+   * Queries the provider's list-models endpoint. Providers whose adapter does
+   * not support discovery return an empty list.
+   */
+  async listModels(
+    options: Pick<GenerateOptions, 'provider' | 'adapter' | 'baseUrl' | 'apiKey' | 'connection' | 'proxyToken' | 'signal'>
+  ): Promise<DiscoveredModel[]> {
+    const adapter = this.resolveAdapter(options)
+    if (!adapter.buildListModelsRequest || !adapter.parseModelList) {
+      return []
     }
-    messages.push({ role: 'user', content: prompt })
-
-    const response = await fetch('https://api.together.xyz/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature,
-        top_p: topP,
-        max_tokens: maxTokens,
-        stream: false
+
+    const request = options.connection === 'proxy'
+      ? { url: `${PROXY_MODELS_PATH}?provider=${encodeURIComponent(options.provider)}`, headers: proxyHeaders(options.proxyToken) }
+      : adapter.buildListModelsRequest(options.baseUrl || adapter.defaultBaseUrl, options.apiKey.trim())
+    let response: Response
+    try {
+      response = await fetch(request.url, {
+        method: 'GET',
+        headers: request.headers,
+        signal: options.signal
       })
-    })
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      throw createNetworkError(adapter.name, error)
+    }
 
     if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Together AI API error: ${response.status} - ${error}`)
+      throw createProviderError(adapter.name, response.status, await response.text(), response.headers)
     }
 
+    return adapter.parseModelList(await response.json())
+  }
+
+  /**
+   * Whether the proxy is enabled and which providers it has server-side
+   * credentials for.
+   */
+  async getServerProxyStatus(signal?: AbortSignal): Promise<ServerProxyStatus> {
+    const response = await fetch(PROXY_PROVIDERS_PATH, { signal })
+    if (!response.ok) {
+      throw new Error(`Proxy status request failed (HTTP ${response.status})`)
+    }
     const data = await response.json()
-    return {
-      content: data.choices[0].message.content,
-      model: data.model,
-      usage: data.usage
+    return { enabled: !!data.enabled, providers: data.providers || [] }
+  }
+
+  private resolveAdapter(options: Pick<GenerateOptions, 'provider' | 'adapter'>): ProviderAdapter {
+    const adapter = getProviderAdapter(options.adapter || options.provider)
+    if (!adapter) {
+      throw new Error(`Unsupported AI provider: ${options.provider}`)
     }
+    return adapter
   }
 
-  private async streamTogetherAI(
-    options: {
-      prompt: string
-      model: string
-      apiKey: string
-      temperature: number
-      topP: number
-      systemPrompt: string
-      maxTokens: number
-    },
-    onChunk: (chunk: StreamingResponse) => void
-  ): Promise<void> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens } = options
+  private prepareRequest(
+    adapter: ProviderAdapter,
+    input: string | ChatMessage[],
+    options: GenerateOptions,
+    stream: boolean
+  ): ProviderRequestParams {
+    const {
+      provider,
+      baseUrl = adapter.defaultBaseUrl,
+      model,
+      apiKey,
+      temperature = 0.7,
+      topP = 0.9,
+      systemPrompt = '',
+      maxTokens = 2048,
+      contextWindow,
+      connection,
+      responseFormat,
+      tools,
+      toolChoice,
+      thinkingBudget,
+      imageInput,
+      continuation = []
+    } = options
+
+    if (connection !== 'proxy' && !adapter.capabilities.optionalApiKey && (!apiKey || apiKey.trim() === '')) {
+      throw new Error(`API key required for ${provider}`)
+    }
 
-    const messages = []
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt })
+    const images = !!imageInput && adapter.capabilities.imageInput
+    if (!images && typeof input !== 'string' && input[input.length - 1]?.attachments?.length) {
+      throw new Error(`${model} does not accept images. Choose a vision model or remove the attachments.`)
     }
-    messages.push({ role: 'user', content: prompt })
-
-    const response = await fetch('https://api.together.xyz/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature,
-        top_p: topP,
-        max_tokens: maxTokens,
-        stream: true
-      })
-    })
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Together AI API error: ${response.status} - ${error}`)
+    const turns = typeof input === 'string'
+      ? [{ role: 'user' as const, content: input }]
+      : toConversationTurns(input, { images })
+    if (tools && tools.length > 0 && !adapter.capabilities.toolCalling) {
+      throw new Error(`${adapter.name} does not support tool calling`)
     }
 
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error('No response body reader available')
+    const messages = [
+      ...fitConversationToBudget(turns, { contextWindow, systemPrompt, maxTokens }),
+      ...continuation
+    ]
+
+    if (messages.length === 0 || messages[messages.length - 1].role !== 'user') {
+      throw new Error('Conversation must end with a user message')
     }
 
-    const decoder = new TextDecoder()
-    let buffer = ''
+    return {
+      baseUrl,
+      apiKey: apiKey.trim(),
+      model,
+      messages,
+      systemPrompt,
+      temperature,
+      topP,
+      maxTokens,
+      stream,
+      responseFormat: adapter.capabilities.structuredOutput ? responseFormat : 'text',
+      tools,
+      toolChoice,
+      thinkingBudget
+    }
+  }
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim()
-            if (data === '[DONE]') {
-              onChunk({ content: '', done: true })
-              return
-            }
-
-            try {
-              const parsed = JSON.parse(data)
-              const content = parsed.choices[0]?.delta?.content || ''
-              if (content) {
-                onChunk({ content, done: false })
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
+  /**
+   * POSTs the adapter's request, retrying rate limits and transient failures
+   * with exponential backoff (honoring Retry-After). Non-OK responses become
+   * typed AIProviderErrors.
+   */
+  private async send(
+    adapter: ProviderAdapter,
+    params: ProviderRequestParams,
+    options: Pick<GenerateOptions, 'provider' | 'connection' | 'proxyToken' | 'signal' | 'maxRetries' | 'onRetry'>
+  ): Promise<Response> {
+    const { signal, maxRetries = DEFAULT_MAX_RETRIES, onRetry } = options
+    const request = options.connection === 'proxy' && !adapter.servedByApp
+      ? this.buildProxyRequest(options.provider, params, options.proxyToken)
+      : adapter.buildRequest(params)
+    // Routes served by this app spend the server's keys too (the mock's record mode)
+    if (adapter.servedByApp) {
+      request.headers = { ...request.headers, ...proxyHeaders(options.proxyToken) }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let error: AIProviderError
+      try {
+        const response = await fetch(request.url, {
+          method: 'POST',
+          headers: request.headers,
+          body: JSON.stringify(request.body),
+          signal
+        })
+
+        if (response.ok) {
+          return response
         }
+        error = createProviderError(adapter.name, response.status, await response.text(), response.headers)
+      } catch (fetchError) {
+        if (isAbortError(fetchError)) throw fetchError
+        error = createNetworkError(adapter.name, fetchError)
       }
-    } finally {
-      reader.releaseLock()
+
+      const delayMs = this.retryDelay(error, attempt)
+      if (!error.retryable || attempt >= maxRetries || delayMs === null) {
+        throw error
+      }
+
+      onRetry?.({ attempt: attempt + 1, delayMs, error })
+      await sleep(delayMs, signal)
     }
   }
 
-  private async callOpenAI(options: {
-    prompt: string
-    model: string
-    apiKey: string
-    temperature: number
-    topP: number
-    systemPrompt: string
-    maxTokens: number
-  }): Promise<AIResponse> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens } = options
-
-    const messages = []
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt })
+  // The proxy answers with the provider's own status and body, so the adapter
+  // parses the reply exactly as in direct mode
+  private buildProxyRequest(provider: string, params: ProviderRequestParams, proxyToken?: string): ProviderRequest {
+    const body: ProxyChatRequest = {
+      provider,
+      model: params.model,
+      messages: params.messages,
+      systemPrompt: params.systemPrompt,
+      temperature: params.temperature,
+      topP: params.topP,
+      maxTokens: params.maxTokens,
+      stream: params.stream,
+      responseFormat: params.responseFormat,
+      tools: params.tools,
+      toolChoice: params.toolChoice,
+      thinkingBudget: params.thinkingBudget
     }
-    messages.push({ role: 'user', content: prompt })
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature,
-        top_p: topP,
-        max_tokens: maxTokens
-      })
-    })
+    return {
+      url: PROXY_CHAT_PATH,
+      headers: { 'Content-Type': 'application/json', ...proxyHeaders(proxyToken) },
+      body: { ...body }
+    }
+  }
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`OpenAI API error: ${response.status} - ${error}`)
+  // Exponential backoff with jitter, or the server's Retry-After when it sent one
+  private retryDelay(error: AIProviderError, attempt: number): number | null {
+    const retryAfterMs = error instanceof RateLimitError || error instanceof ProviderUnavailableError
+      ? error.retryAfterMs
+      : undefined
+
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs > MAX_RETRY_DELAY_MS ? null : retryAfterMs
     }
 
-    const data = await response.json()
-    return {
-      content: data.choices[0].message.content,
-      model: data.model,
-      usage: data.usage
+    const backoff = BASE_RETRY_DELAY_MS * Math.pow(2, attempt)
+    return Math.min(backoff + Math.random() * BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS)
+  }
+
+  /**
+   * Streams a cached reply in small chunks so the chat renders it like a live
+   * one. No usage is reported, since nothing was billed.
+   */
+  private async replay(cached: CachedResponse, onChunk: (chunk: StreamingResponse) => void, signal?: AbortSignal): Promise<void> {
+    if (cached.reasoning) {
+      onChunk({ content: '', reasoning: cached.reasoning, done: false, cached: true })
     }
+    for (let offset = 0; offset < cached.content.length; offset += REPLAY_CHUNK_SIZE) {
+      await sleep(REPLAY_CHUNK_DELAY_MS, signal)
+      onChunk({ content: cached.content.slice(offset, offset + REPLAY_CHUNK_SIZE), done: false, cached: true })
+    }
+    onChunk({ content: '', done: true, finishReason: cached.finishReason, cached: true })
   }
 
-  private async streamOpenAI(
-    options: {
-      prompt: string
-      model: string
-      apiKey: string
-      temperature: number
-      topP: number
-      systemPrompt: string
-      maxTokens: number
-    },
-    onChunk: (chunk: StreamingResponse) => void
-  ): Promise<void> {
-    // Similar to Together AI streaming but with OpenAI endpoint
-    // Implementation would be very similar to streamTogetherAI
-    throw new Error('OpenAI streaming not implemented yet')
+  private completeUsage(usage?: Partial<TokenUsage>): TokenUsage | undefined {
+    if (!usage) return undefined
+
+    const promptTokens = usage.prompt_tokens || 0
+    const completionTokens = usage.completion_tokens || 0
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: usage.total_tokens || promptTokens + completionTokens
+    }
   }
+}
 
-  private async callAnthropic(options: {
-    prompt: string
-    model: string
-    apiKey: string
-    temperature: number
-    topP: number
-    systemPrompt: string
-    maxTokens: number
-  }): Promise<AIResponse> {
-    const { prompt, model, apiKey, temperature, topP, systemPrompt, maxTokens } = options
-
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: maxTokens,
-        temperature,
-        top_p: topP,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: prompt }]
-      })
-    })
+function proxyHeaders(proxyToken?: string): Record<string, string> {
+  return proxyToken ? { [PROXY_TOKEN_HEADER]: proxyToken } : {}
+}
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Anthropic API error: ${response.status} - ${error}`)
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
     }
 
-    const data = await response.json()
-    return {
-      content: data.content[0].text,
-      model: data.model,
-      usage: data.usage
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    function onAbort() {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
     }
-  }
 
-  private async streamAnthropic(
-    options: {
-      prompt: string
-      model: string
-      apiKey: string
-      temperature: number
-      topP: number
-      systemPrompt: string
-      maxTokens: number
-    },
-    onChunk: (chunk: StreamingResponse) => void
-  ): Promise<void> {
-    // Similar streaming implementation for Anthropic
-    throw new Error('Anthropic streaming not implemented yet')
-  }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
 }
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { ChatMessage, useAppStore } from '@/store/app-store'
+import type { ImageAttachment } from './attachments'
+import { createObjectStoreRunner } from './indexed-db'
+
+/**
+ * Image data of chat attachments, kept in IndexedDB by attachment id. The
+ * persisted chat only keeps each attachment's name and type, as a few images
+ * would fill the localStorage quota.
+ */
+interface StoredImage {
+  id: string
+  data: string
+  savedAt: number
+}
+
+// Unreferenced images younger than this may belong to a message another tab
+// has not saved yet, so they are left alone
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000
+
+const withStore = createObjectStoreRunner('xrai-attachments', 'images', 'id')
+
+function isAttachmentStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Every attachment in the messages, including those in branches put away by
+ * editing or regenerating.
+ */
+export function collectAttachments(messages: ChatMessage[]): ImageAttachment[] {
+  const attachments: ImageAttachment[] = []
+  messages.forEach(message => {
+    attachments.push(...(message.attachments || []))
+    message.versions?.branches.forEach(branch => attachments.push(...collectAttachments(branch.messages)))
+  })
+  return attachments
+}
+
+/**
+ * Stores the data of attachments that carry it. A failure only loses the
+ * images after a reload, so it is logged rather than reported.
+ */
+export async function saveAttachmentImages(attachments: ImageAttachment[]): Promise<void> {
+  const images = attachments.filter(attachment => attachment.data !== '')
+  if (!isAttachmentStoreAvailable() || images.length === 0) return
+
+  const savedAt = Date.now()
+  try {
+    await withStore('readwrite', store => {
+      images.forEach(image => store.put({ id: image.id, data: image.data, savedAt }))
+    })
+  } catch (error) {
+    console.warn('Saving attachment images failed:', error)
+  }
+}
+
+/**
+ * Puts stored image data back into the chat after a reload, then deletes
+ * images no conversation refers to. Attachments that still carry their data
+ * (saved before images moved out of localStorage) are stored first.
+ */
+export async function restoreAttachmentImages(): Promise<void> {
+  if (!isAttachmentStoreAvailable()) return
+
+  await saveAttachmentImages(getAllAttachments())
+  try {
+    const stored = await withStore<StoredImage[]>('readonly', store => store.getAll())
+    const referenced: Record<string, true> = {}
+    getAllAttachments().forEach(attachment => {
+      referenced[attachment.id] = true
+    })
+
+    const images: Record<string, string> = {}
+    const orphaned: string[] = []
+    stored.forEach(image => {
+      if (referenced[image.id]) {
+        images[image.id] = image.data
+      } else if (Date.now() - image.savedAt > ORPHAN_GRACE_MS) {
+        orphaned.push(image.id)
+      }
+    })
+
+    useAppStore.getState().restoreAttachmentData(images)
+    if (orphaned.length > 0) {
+      await withStore('readwrite', store => {
+        orphaned.forEach(id => store.delete(id))
+      })
+    }
+  } catch (error) {
+    console.warn('Restoring attachment images failed:', error)
+  }
+}
+
+function getAllAttachments(): ImageAttachment[] {
+  return useAppStore.getState().conversations.reduce<ImageAttachment[]>(
+    (attachments, conversation) => attachments.concat(collectAttachments(conversation.messages)),
+    []
+  )
+}
@@ -0,0 +1,108 @@
+import type { AIModel } from '@/store/app-store'
+import type { ProviderAdapter } from './providers/types'
+
+/**
+ * An image sent with a user message. Downscaled and re-encoded before it is
+ * attached; the data is kept in IndexedDB (see attachment-store).
+ */
+export interface ImageAttachment {
+  id: string
+  name: string
+  // MIME type of `data`
+  mediaType: string
+  // Base64 without the data: URL prefix; empty when this browser no longer has the image
+  data: string
+  source: 'upload' | 'screenshot'
+}
+
+export const MAX_ATTACHMENTS = 4
+// Formats both OpenAI and Anthropic accept
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif']
+
+// Longest edge in pixels; larger images cost more tokens without helping the model
+// much, and every attachment is stored with the chat
+const MAX_IMAGE_DIMENSION = 1024
+const JPEG_QUALITY = 0.85
+
+// Models discovered from a provider carry no capability data, so vision is guessed from the id
+const VISION_MODEL_PATTERN = /gpt-4o|gpt-4\.1|gpt-5|^o[34]|claude|vision|[-_]vl\b|llava|pixtral|gemma-?3|llama-4|moondream|minicpm-v/i
+
+/**
+ * True when images can be sent to the model: the adapter must know the
+ * provider's image format and the model must accept images.
+ */
+export function supportsImageInput(model: AIModel | undefined, adapter: ProviderAdapter | undefined): boolean {
+  if (!model || !adapter?.capabilities.imageInput) return false
+  return model.vision ?? VISION_MODEL_PATTERN.test(model.id)
+}
+
+export function toDataUrl(attachment: Pick<ImageAttachment, 'mediaType' | 'data'>): string {
+  return `data:${attachment.mediaType};base64,${attachment.data}`
+}
+
+/**
+ * Decodes an image file and re-encodes it as a downscaled JPEG.
+ */
+export async function readImageFile(file: File): Promise<ImageAttachment> {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a PNG, JPEG, WebP or GIF image`)
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const image = await loadImage(url)
+    return encodeImage(image, image.naturalWidth, image.naturalHeight, file.name, 'upload')
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Turns a captured canvas into an attachment, downscaled like uploads.
+ */
+export function canvasToAttachment(canvas: HTMLCanvasElement, name: string): ImageAttachment {
+  return encodeImage(canvas, canvas.width, canvas.height, name, 'screenshot')
+}
+
+function encodeImage(
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  name: string,
+  source: ImageAttachment['source']
+): ImageAttachment {
+  if (!width || !height) {
+    throw new Error(`${name} is empty`)
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(width, height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(width * scale)
+  canvas.height = Math.round(height * scale)
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Images cannot be processed in this browser')
+  }
+  // JPEG has no alpha; transparent areas would otherwise turn black
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY)
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name,
+    mediaType: 'image/jpeg',
+    data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+    source
+  }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('The image could not be decoded'))
+    image.src = url
+  })
+}
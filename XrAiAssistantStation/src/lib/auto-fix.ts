@@ -0,0 +1,141 @@
+import { SceneError, useAppStore } from '@/store/app-store'
+import { AIService, isAbortError } from './ai-service'
+import { getEntryFile, parseFencedCodeFiles } from './code-files'
+import { diffToEditHunks } from './code-patch'
+import { getProviderAdapter } from './providers/registry'
+import { formatSceneErrors } from './scene-tools'
+import { calculateCost, getExceededSpendLimit } from './usage-cost'
+
+const AUTO_FIX_INSTRUCTIONS = [
+  'The scene below throws at runtime. Fix the cause of the error without changing what the scene does.',
+  'Reply with one or two sentences on what was wrong, followed by the complete corrected file in a single fenced code block.'
+].join(' ')
+
+// 'stopped' means the user cancelled the request with the chat's Stop button
+export type AutoFixOutcome = 'applied' | 'failed' | 'stopped'
+
+/**
+ * Asks the model to fix a scene error, applies its corrected code and re-runs
+ * the scene. The attempt is written to the chat as an assistant message.
+ */
+export async function runAutoFixAttempt(error: SceneError, attempt: number): Promise<AutoFixOutcome> {
+  const store = useAppStore.getState()
+  const { settings } = store
+  const provider = store.getCurrentProvider()
+  const model = store.getCurrentModel()
+  const library = store.getCurrentLibrary()
+  const code = store.currentCode
+  const maxAttempts = settings.maxAutoFixAttempts
+  if (!provider || !model || !library || !code.trim()) return 'failed'
+
+  const heading = `**Auto-fix attempt ${attempt} of ${maxAttempts}**\n\n\`${formatSceneErrors([error])}\``
+  const messageId = store.addMessage({
+    role: 'assistant',
+    content: `${heading}\n\n_Asking ${model.name} for a fix…_`,
+    library: library.id,
+    provider: provider.id,
+    model: model.id,
+    autoFix: { attempt, maxAttempts }
+  })
+  const fail = (reason: string): AutoFixOutcome => {
+    store.updateMessage(messageId, { content: `${heading}\n\n${reason}`, isError: true })
+    return 'failed'
+  }
+
+  const exceededLimit = getExceededSpendLimit(settings, store.spendLog)
+  if (exceededLimit) {
+    return fail(`Skipped: the ${exceededLimit.period} spend limit has been reached.`)
+  }
+
+  const apiKey = settings.apiKeys[provider.id] || ''
+  const keyOptional = settings.connectionMode === 'proxy' || getProviderAdapter(provider.adapter)?.capabilities.optionalApiKey
+  if (!keyOptional && apiKey.trim() === '') {
+    return fail(`Skipped: set your ${provider.name} API key in settings.`)
+  }
+
+  const controller = new AbortController()
+  store.setAutoFixController(controller)
+  store.setLoading(true)
+  try {
+    const response = await AIService.getInstance().generateResponse(buildFixPrompt(code, error, library.name, library.version), {
+      provider: provider.id,
+      adapter: provider.adapter,
+      baseUrl: provider.baseUrl,
+      model: model.id,
+      apiKey,
+      connection: settings.connectionMode,
+      proxyToken: settings.proxyAccessToken,
+      temperature: settings.temperature,
+      topP: settings.topP,
+      systemPrompt: `${library.systemPrompt}\n\n${AUTO_FIX_INSTRUCTIONS}`,
+      contextWindow: model.contextWindow,
+      signal: controller.signal
+    })
+
+    // A reply that arrived just before Stop was still paid for
+    const cost = calculateCost(response.usage, model.cost)
+    if (cost !== undefined && cost > 0) {
+      store.recordSpend({ timestamp: Date.now(), cost, provider: provider.id, model: model.id })
+    }
+    if (controller.signal.aborted) {
+      throw new DOMException('Aborted', 'AbortError')
+    }
+
+    const fixed = getEntryFile(parseFencedCodeFiles(response.content), library.id)?.content
+    const explanation = response.content.replace(/```[\s\S]*?```/g, '').trim()
+    if (!fixed) {
+      store.updateMessage(messageId, { usage: response.usage, cost })
+      return fail(`${explanation}\n\n_The reply contained no code, so nothing was changed._`)
+    }
+
+    // Only the changed lines go in the chat; the editor gets the whole file
+    store.updateMessage(messageId, {
+      content: [heading, explanation, formatChanges(code, fixed)].filter(Boolean).join('\n\n'),
+      usage: response.usage,
+      cost
+    })
+    // The old errors would otherwise trigger another fix before the new code has run
+    store.clearSceneErrors()
+    store.setCurrentCode(fixed)
+    store.requestSceneRun()
+    return 'applied'
+  } catch (requestError) {
+    if (isAbortError(requestError)) {
+      store.updateMessage(messageId, { content: `${heading}\n\n_Stopped; the code was not changed._`, interrupted: true })
+      return 'stopped'
+    }
+    return fail(`The fix request failed: ${requestError instanceof Error ? requestError.message : 'Unknown error'}`)
+  } finally {
+    if (useAppStore.getState().autoFixController === controller) {
+      store.setAutoFixController(null)
+    }
+    store.setLoading(false)
+  }
+}
+
+function buildFixPrompt(code: string, error: SceneError, libraryName: string, libraryVersion: string): string {
+  const location = error.line
+    ? `Line ${error.line}${error.column ? `, column ${error.column}` : ''}`
+    : 'Line unknown'
+  return [
+    `Library: ${libraryName} v${libraryVersion}`,
+    `Error: ${error.message}`,
+    location,
+    error.stack ? `Stack:\n${error.stack}` : '',
+    `Code:\n\`\`\`javascript\n${code}\n\`\`\``
+  ].filter(Boolean).join('\n\n')
+}
+
+// A diff-style summary without @@ headers, so the chat does not offer it as a patch to apply
+function formatChanges(before: string, after: string): string {
+  const hunks = diffToEditHunks(before, after)
+  if (hunks.length === 0) return '_The suggested code is identical to the current code._'
+
+  const lines: string[] = []
+  hunks.forEach(hunk => {
+    lines.push(`… line ${hunk.start + 1}`)
+    hunk.original.forEach(line => lines.push(`-${line}`))
+    hunk.replacement.forEach(line => lines.push(`+${line}`))
+  })
+  return `\`\`\`diff\n${lines.join('\n')}\n\`\`\``
+}
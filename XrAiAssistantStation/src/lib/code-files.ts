@@ -0,0 +1,259 @@
+import { hasSearchReplaceBlocks } from './code-patch'
+import { splitReasoning } from './reasoning'
+
+export interface CodeFile {
+  // Relative path as the model named it, e.g. "App.jsx" or "components/Planet.jsx"
+  path: string
+  language: string
+  content: string
+}
+
+/**
+ * What the model returns when asked for structured output (JSON mode or a
+ * forced tool call).
+ */
+export interface CodeFilesPayload {
+  explanation: string
+  files: CodeFile[]
+}
+
+// Fenced languages treated as runnable code; other fences (bash, json, ...) are prose
+const CODE_LANGUAGES = ['javascript', 'js', 'typescript', 'ts', 'jsx', 'tsx', 'html', 'css']
+const SCRIPT_LANGUAGES = ['javascript', 'js', 'typescript', 'ts', 'jsx', 'tsx']
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  jsx: 'jsx',
+  ts: 'typescript',
+  tsx: 'tsx',
+  html: 'html',
+  css: 'css'
+}
+
+const FILE_NAME_PATTERN = /^[\w./-]+\.(?:m?jsx?|tsx?|html|css)$/
+// `App.jsx`, **App.jsx**, ### components/Planet.jsx, File: scene.js
+const HEADING_FILE_NAME_PATTERN = /(?:^|[\s:])[`*_]*([\w./-]+\.(?:m?jsx?|tsx?|html|css))[`*_]*:?\s*$/
+// A first line such as `// App.jsx` or `<!-- file: index.html -->`
+const COMMENT_FILE_NAME_PATTERN = /^\s*(?:\/\/|\/\*|<!--)\s*(?:file(?:name)?:\s*)?([\w./-]+\.(?:m?jsx?|tsx?|html|css))\s*(?:\*\/|-->)?\s*$/i
+
+/**
+ * Instructions appended to the system prompt when the provider cannot be
+ * forced into structured output, so fenced blocks carry file names.
+ */
+export const FILENAME_HINT_INSTRUCTIONS = [
+  'When your answer contains code, put each file in its own fenced code block',
+  'and write the file name after the language, for example ```jsx App.jsx.',
+  'Put the file that starts the scene last.'
+].join(' ')
+
+/**
+ * Instructions for providers that return the structured payload.
+ */
+export const STRUCTURED_OUTPUT_INSTRUCTIONS = [
+  'Return your answer as the code_files payload: "explanation" holds your prose answer in Markdown',
+  '(without the code), and "files" lists every file with its path, language and full content.',
+  'List the file that starts the scene last. Use an empty files list when no code is needed.'
+].join(' ')
+
+/**
+ * Reads a structured payload from a response, tolerating a ```json fence
+ * around it. Returns null when the text is not such a payload.
+ */
+export function parseCodeFilesPayload(text: string): CodeFilesPayload | null {
+  const trimmed = text.trim()
+  const fenced = /^```(?:json)?\s*\n([\s\S]*?)\n\s*```$/.exec(trimmed)
+  const json = fenced ? fenced[1] : trimmed
+  if (!json.startsWith('{')) return null
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(json)
+  } catch (error) {
+    return null
+  }
+  if (!parsed || !Array.isArray(parsed.files)) return null
+
+  const files: CodeFile[] = parsed.files
+    .filter((file: any) => file && typeof file.content === 'string' && file.content.trim() !== '')
+    .map((file: any, index: number) => {
+      const path = typeof file.path === 'string' && file.path.trim() ? file.path.trim() : defaultPath(index, file.language)
+      return {
+        path,
+        language: typeof file.language === 'string' && file.language ? file.language : languageFromPath(path),
+        content: file.content.replace(/\s+$/, '')
+      }
+    })
+
+  return {
+    explanation: typeof parsed.explanation === 'string' ? parsed.explanation : '',
+    files
+  }
+}
+
+/**
+ * Collects every fenced code block, naming each file from the fence info
+ * (```jsx App.jsx, ```js title="scene.js"), the heading line just above the
+ * block, or a leading file-name comment. Unnamed blocks get placeholder names.
+ */
+export function parseFencedCodeFiles(markdown: string): CodeFile[] {
+  const fenceRegex = /```([^\n`]*)\n([\s\S]*?)\n\s*```/g
+  const files: CodeFile[] = []
+  let match: RegExpExecArray | null
+
+  while ((match = fenceRegex.exec(markdown)) !== null) {
+    const { language, path: infoPath } = parseFenceInfo(match[1])
+    if (language && CODE_LANGUAGES.indexOf(language) === -1) continue
+
+    const content = match[2].trim()
+    // Edit blocks for the current code are patches, not files
+    if (!content || hasSearchReplaceBlocks(content)) continue
+
+    const path = infoPath
+      || fileNameFromHeading(markdown.slice(0, match.index))
+      || fileNameFromComment(content)
+      || defaultPath(files.length, language)
+
+    files.push({ path, language: language || languageFromPath(path), content })
+  }
+
+  return dedupePaths(files)
+}
+
+/**
+ * Files from a response: the structured payload when there is one, otherwise
+ * the fenced blocks of the answer.
+ */
+export function extractCodeFiles(content: string): CodeFile[] {
+  // Code sketched while reasoning is not part of the answer
+  const answer = splitReasoning(content).answer
+  const payload = parseCodeFilesPayload(answer)
+  return payload ? payload.files : parseFencedCodeFiles(answer)
+}
+
+/**
+ * Renders a structured payload as Markdown (explanation followed by one
+ * named fence per file) so it displays like any other reply.
+ */
+export function formatCodeFilesMarkdown(payload: CodeFilesPayload): string {
+  const blocks = payload.files.map(file => `\`\`\`${file.language} ${file.path}\n${file.content}\n\`\`\``)
+  return [payload.explanation.trim(), ...blocks].filter(Boolean).join('\n\n')
+}
+
+/**
+ * The file that starts the scene: a conventional entry name when present
+ * (App.* for React Three Fiber; scene.*, main.*, index.* otherwise),
+ * else the first script file.
+ */
+export function getEntryFile(files: CodeFile[], libraryId?: string): CodeFile | null {
+  if (files.length === 0) return null
+
+  const entryNames = libraryId === 'react-three-fiber'
+    ? ['app']
+    : ['scene', 'main', 'index', 'app']
+  for (const name of entryNames) {
+    const entry = files.find(file => baseName(file.path) === name && isScriptFile(file))
+    if (entry) return entry
+  }
+
+  return files.find(isScriptFile) || files[0]
+}
+
+/**
+ * Joins a file set into one script for the iframe renderer: CSS is injected
+ * as <style>, HTML fragments are added to the body, supporting scripts run
+ * in order and the entry file runs last.
+ */
+export function buildRunnableScript(files: CodeFile[], entryPath: string): string {
+  const parts: string[] = []
+  let entry = ''
+
+  for (const file of files) {
+    if (file.path === entryPath) {
+      entry = file.content
+    } else if (file.language === 'css') {
+      parts.push(`document.head.appendChild(Object.assign(document.createElement('style'), { textContent: ${JSON.stringify(file.content)} }));`)
+    } else if (file.language === 'html') {
+      parts.push(`document.body.insertAdjacentHTML('beforeend', ${JSON.stringify(htmlBody(file.content))});`)
+    } else if (isScriptFile(file)) {
+      parts.push(`// ${file.path}\n${file.content}`)
+    }
+  }
+
+  parts.push(entry)
+  return parts.join('\n\n')
+}
+
+export function isScriptFile(file: CodeFile): boolean {
+  return SCRIPT_LANGUAGES.indexOf(file.language) !== -1
+}
+
+export function languageFromPath(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return EXTENSION_LANGUAGES[extension] || 'javascript'
+}
+
+function parseFenceInfo(info: string): { language: string; path?: string } {
+  const tokens = info.trim().split(/\s+/).filter(Boolean)
+  let language = ''
+  let path: string | undefined
+
+  for (const token of tokens) {
+    const attribute = /^(?:title|filename|file|path)=["']?([^"']+)["']?$/i.exec(token)
+    if (attribute) {
+      path = attribute[1]
+    } else if (token.indexOf(':') > 0 && FILE_NAME_PATTERN.test(token.slice(token.indexOf(':') + 1))) {
+      // ```jsx:App.jsx
+      language = token.slice(0, token.indexOf(':')).toLowerCase()
+      path = token.slice(token.indexOf(':') + 1)
+    } else if (FILE_NAME_PATTERN.test(token)) {
+      path = token
+    } else if (!language) {
+      language = token.toLowerCase()
+    }
+  }
+
+  return { language, path }
+}
+
+function fileNameFromHeading(before: string): string | undefined {
+  const lines = before.replace(/\s+$/, '').split('\n')
+  const previous = lines[lines.length - 1] || ''
+  // Only short label lines, not the end of a prose sentence
+  if (previous.length > 80) return undefined
+  return HEADING_FILE_NAME_PATTERN.exec(previous)?.[1]
+}
+
+function fileNameFromComment(content: string): string | undefined {
+  return COMMENT_FILE_NAME_PATTERN.exec(content.split('\n')[0])?.[1]
+}
+
+function defaultPath(index: number, language?: string): string {
+  const extension = language === 'javascript' || !language ? 'js' : language === 'typescript' ? 'ts' : language
+  return index === 0 ? `untitled.${extension}` : `untitled-${index + 1}.${extension}`
+}
+
+function baseName(path: string): string {
+  const name = path.split('/').pop() || path
+  return name.replace(/\.[^.]+$/, '').toLowerCase()
+}
+
+// Models sometimes repeat a file (e.g. a revised App.jsx); the later block wins
+function dedupePaths(files: CodeFile[]): CodeFile[] {
+  const result: CodeFile[] = []
+  for (const file of files) {
+    const existing = result.findIndex(other => other.path === file.path)
+    if (existing === -1) {
+      result.push(file)
+    } else {
+      result[existing] = file
+    }
+  }
+  return result
+}
+
+function htmlBody(html: string): string {
+  const body = /<body[^>]*>([\s\S]*?)<\/body>/i.exec(html)
+  // Script tags inserted via insertAdjacentHTML never run, so drop them
+  return (body ? body[1] : html).replace(/<script[\s\S]*?<\/script>/gi, '')
+}
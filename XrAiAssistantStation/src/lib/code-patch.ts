@@ -0,0 +1,325 @@
+export type PatchResult =
+  | { ok: true; code: string }
+  | { ok: false; error: string }
+
+/**
+ * One edit as the model wrote it: a SEARCH/REPLACE block, or a unified diff
+ * hunk with its context and removed lines as `search`.
+ */
+export interface PatchHunk {
+  search: string
+  replace: string
+  // 1-based start line from a diff's @@ header, used to anchor insertions and break ties
+  lineHint?: number
+}
+
+/**
+ * An edit placed in a specific version of the code, ready for review.
+ */
+export interface EditHunk {
+  id: string
+  // Line range in the base code, end exclusive; start === end inserts before `start`
+  start: number
+  end: number
+  original: string[]
+  replacement: string[]
+  // Why the hunk could not be placed; such hunks are never applied
+  error?: string
+}
+
+const SEARCH_REPLACE_PATTERN = /^<{7}\s*SEARCH[^\n]*\n([\s\S]*?)^={7}[^\n]*\n([\s\S]*?)^>{7}\s*REPLACE[^\n]*$/gm
+const DIFF_FENCE_PATTERN = /```(?:diff|patch)[^\n]*\n([\s\S]*?)\n\s*```/g
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/
+// Line-by-line diffing is quadratic; larger inputs become a single hunk
+const MAX_DIFF_CELLS = 4000000
+
+/**
+ * Added to the system prompt when the playground has code, so edits come back
+ * as patches instead of whole files.
+ */
+export const EDIT_FORMAT_INSTRUCTIONS = [
+  'When asked to change the current playground code, reply with one or more SEARCH/REPLACE blocks instead of the whole file:',
+  '<<<<<<< SEARCH',
+  'exact lines from the current code, including enough context to be unique',
+  '=======',
+  'the new lines',
+  '>>>>>>> REPLACE',
+  'Only send a complete file for a new scene or a full rewrite.'
+].join('\n')
+
+/**
+ * Replaces exactly one occurrence of `search` in `code`. Falls back to a
+ * match that ignores trailing whitespace on each line, since models often
+ * drop or add it when quoting code back.
+ */
+export function applySearchReplace(code: string, search: string, replace: string): PatchResult {
+  if (!search) {
+    return { ok: false, error: 'The search text is empty' }
+  }
+
+  const exact = countOccurrences(code, search)
+  if (exact === 1) {
+    const index = code.indexOf(search)
+    return { ok: true, code: code.slice(0, index) + replace + code.slice(index + search.length) }
+  }
+  if (exact > 1) {
+    return { ok: false, error: `The search text matches ${exact} places; include more surrounding lines` }
+  }
+
+  const codeLines = code.split('\n')
+  const located = locateLines(codeLines, trimBlankEdges(search.split('\n')))
+  if (!located.ok) {
+    return located
+  }
+
+  const patched = [
+    ...codeLines.slice(0, located.start),
+    ...replace.split('\n'),
+    ...codeLines.slice(located.end)
+  ]
+  return { ok: true, code: patched.join('\n') }
+}
+
+/**
+ * Edits in a reply: SEARCH/REPLACE blocks when present, otherwise the hunks
+ * of ```diff fences. Empty when the reply has neither.
+ */
+export function parseCodePatch(text: string): PatchHunk[] {
+  const blocks = parseSearchReplaceBlocks(text)
+  return blocks.length > 0 ? blocks : parseUnifiedDiffs(text)
+}
+
+export function hasSearchReplaceBlocks(text: string): boolean {
+  SEARCH_REPLACE_PATTERN.lastIndex = 0
+  return SEARCH_REPLACE_PATTERN.test(text)
+}
+
+export function parseSearchReplaceBlocks(text: string): PatchHunk[] {
+  const hunks: PatchHunk[] = []
+  SEARCH_REPLACE_PATTERN.lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = SEARCH_REPLACE_PATTERN.exec(text)) !== null) {
+    hunks.push({ search: stripFinalNewline(match[1]), replace: stripFinalNewline(match[2]) })
+  }
+  return hunks
+}
+
+export function parseUnifiedDiffs(text: string): PatchHunk[] {
+  const hunks: PatchHunk[] = []
+  DIFF_FENCE_PATTERN.lastIndex = 0
+  let fence: RegExpExecArray | null
+
+  while ((fence = DIFF_FENCE_PATTERN.exec(text)) !== null) {
+    let current: { search: string[]; replace: string[]; lineHint: number } | null = null
+    const finish = () => {
+      if (current && (current.search.length > 0 || current.replace.length > 0)) {
+        hunks.push({ search: current.search.join('\n'), replace: current.replace.join('\n'), lineHint: current.lineHint })
+      }
+      current = null
+    }
+
+    const lines = fence[1].split('\n')
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]
+      const header = HUNK_HEADER_PATTERN.exec(line)
+      if (header) {
+        finish()
+        current = { search: [], replace: [], lineHint: Number(header[1]) }
+      } else if (!current || line.startsWith('\\')) {
+        // File headers before the first hunk, and "\ No newline at end of file"
+        continue
+      } else if (line.startsWith('--- ') || line.startsWith('+++ ')) {
+        finish()
+      } else if (line.startsWith('-')) {
+        current.search.push(line.slice(1))
+      } else if (line.startsWith('+')) {
+        current.replace.push(line.slice(1))
+      } else {
+        // Context; models often drop the leading space on blank lines
+        const context = line.startsWith(' ') ? line.slice(1) : line
+        current.search.push(context)
+        current.replace.push(context)
+      }
+    }
+    finish()
+  }
+
+  return hunks
+}
+
+/**
+ * Places each patch hunk in `code`. Hunks that cannot be found, match
+ * ambiguously or overlap an earlier hunk keep an `error` instead of a range.
+ */
+export function buildEditHunks(code: string, patch: PatchHunk[]): EditHunk[] {
+  const codeLines = code.split('\n')
+  const placed: EditHunk[] = []
+
+  return patch.map((hunk, index) => {
+    const id = `hunk-${index + 1}`
+    const search = trimBlankEdges(hunk.search.split('\n'))
+    const replacement = hunk.replace === '' ? [] : hunk.replace.split('\n')
+    const failed = (error: string): EditHunk => ({ id, start: -1, end: -1, original: search, replacement, error })
+
+    let range: { start: number; end: number }
+    if (search.length === 1 && search[0].trim() === '') {
+      // Pure insertion: only possible with a diff header, or into empty code
+      if (hunk.lineHint !== undefined) {
+        const at = Math.min(Math.max(hunk.lineHint - 1, 0), codeLines.length)
+        range = { start: at, end: at }
+      } else if (code.trim() === '') {
+        range = { start: 0, end: codeLines.length }
+      } else {
+        return failed('The edit has no search text to anchor it')
+      }
+    } else {
+      const located = locateLines(codeLines, search, hunk.lineHint)
+      if (!located.ok) return failed(located.error)
+      range = located
+    }
+
+    if (placed.some(other => range.start < other.end && other.start < range.end)) {
+      return failed('The edit overlaps an earlier change')
+    }
+
+    const result: EditHunk = { id, start: range.start, end: range.end, original: codeLines.slice(range.start, range.end), replacement }
+    placed.push(result)
+    return result
+  })
+}
+
+/**
+ * Hunks that turn `before` into `after`, from a line diff. Used to review a
+ * whole-file replacement change by change.
+ */
+export function diffToEditHunks(before: string, after: string): EditHunk[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++
+
+  const aMid = a.slice(prefix, a.length - suffix)
+  const bMid = b.slice(prefix, b.length - suffix)
+  if (aMid.length === 0 && bMid.length === 0) return []
+
+  if ((aMid.length + 1) * (bMid.length + 1) > MAX_DIFF_CELLS) {
+    return [{ id: 'hunk-1', start: prefix, end: prefix + aMid.length, original: aMid, replacement: bMid }]
+  }
+
+  // Longest common subsequence table, filled from the end
+  const width = bMid.length + 1
+  const table = new Array<number>((aMid.length + 1) * width).fill(0)
+  for (let i = aMid.length - 1; i >= 0; i--) {
+    for (let j = bMid.length - 1; j >= 0; j--) {
+      table[i * width + j] = aMid[i] === bMid[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1])
+    }
+  }
+
+  const hunks: EditHunk[] = []
+  let i = 0
+  let j = 0
+  while (i < aMid.length || j < bMid.length) {
+    if (i < aMid.length && j < bMid.length && aMid[i] === bMid[j]) {
+      i++
+      j++
+      continue
+    }
+
+    const startA = i
+    const startB = j
+    while (i < aMid.length || j < bMid.length) {
+      if (i < aMid.length && j < bMid.length && aMid[i] === bMid[j]) break
+      if (j >= bMid.length || (i < aMid.length && table[(i + 1) * width + j] >= table[i * width + j + 1])) {
+        i++
+      } else {
+        j++
+      }
+    }
+    hunks.push({
+      id: `hunk-${hunks.length + 1}`,
+      start: prefix + startA,
+      end: prefix + i,
+      original: aMid.slice(startA, i),
+      replacement: bMid.slice(startB, j)
+    })
+  }
+
+  return hunks
+}
+
+/**
+ * Applies placed hunks to the code they were built against. Hunks with an
+ * error are skipped.
+ */
+export function applyEditHunks(code: string, hunks: EditHunk[]): string {
+  const lines = code.split('\n')
+  hunks
+    .filter(hunk => !hunk.error)
+    .sort((x, y) => y.start - x.start)
+    .forEach(hunk => {
+      lines.splice(hunk.start, hunk.end - hunk.start, ...hunk.replacement)
+    })
+  return lines.join('\n')
+}
+
+// Finds `search` as whole lines, ignoring trailing whitespace; a line hint picks between several matches
+function locateLines(
+  codeLines: string[],
+  search: string[],
+  lineHint?: number
+): { ok: true; start: number; end: number } | { ok: false; error: string } {
+  const matches: number[] = []
+  for (let start = 0; start + search.length <= codeLines.length; start++) {
+    if (search.every((line, offset) => codeLines[start + offset].trimEnd() === line.trimEnd())) {
+      matches.push(start)
+    }
+  }
+
+  if (matches.length === 0) {
+    return { ok: false, error: 'The search text was not found in the current code' }
+  }
+  if (matches.length > 1 && lineHint === undefined) {
+    return { ok: false, error: `The search text matches ${matches.length} places; include more surrounding lines` }
+  }
+
+  const start = matches.length === 1
+    ? matches[0]
+    : matches.reduce((best, candidate) =>
+      Math.abs(candidate + 1 - (lineHint as number)) < Math.abs(best + 1 - (lineHint as number)) ? candidate : best)
+  return { ok: true, start, end: start + search.length }
+}
+
+function countOccurrences(text: string, search: string): number {
+  let count = 0
+  let index = text.indexOf(search)
+  while (index !== -1) {
+    count++
+    index = text.indexOf(search, index + search.length)
+  }
+  return count
+}
+
+function trimBlankEdges(lines: string[]): string[] {
+  const result = [...lines]
+  while (result.length > 1 && result[result.length - 1].trim() === '') {
+    result.pop()
+  }
+  while (result.length > 1 && result[0].trim() === '') {
+    result.shift()
+  }
+  return result
+}
+
+function stripFinalNewline(text: string): string {
+  return text.endsWith('\n') ? text.slice(0, -1) : text
+}
@@ -0,0 +1,153 @@
+import type { ChatMessage } from '@/store/app-store'
+import type { ImageAttachment } from './attachments'
+import { splitReasoning } from './reasoning'
+
+export interface ToolCall {
+  // Provider-assigned id that the matching result must echo
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+}
+
+export interface ToolResult {
+  toolCallId: string
+  name: string
+  content: string
+  isError?: boolean
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  content: string
+  // Assistant turn that asked for tools
+  toolCalls?: ToolCall[]
+  // User-side turn answering those calls; adapters map it to their own format
+  toolResults?: ToolResult[]
+  // Images sent with a user turn
+  images?: ImageAttachment[]
+}
+
+// Used when a model does not declare its context window
+export const DEFAULT_CONTEXT_WINDOW = 8192
+
+// Rough per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4
+// What a downscaled attachment costs (OpenAI and Anthropic both bill ~800-1,500 tokens)
+const IMAGE_TOKEN_ESTIMATE = 1500
+
+/**
+ * Cheap token estimate (~4 characters per token). Good enough for budgeting;
+ * the provider's own usage numbers remain the source of truth.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * The messages a new prompt continues from. The main conversation leaves
+ * threads out; a thread reply sees the conversation up to the message the
+ * thread hangs off, then that thread only.
+ */
+export function getBranchMessages(messages: ChatMessage[], threadParentId?: string): ChatMessage[] {
+  if (!threadParentId) {
+    return messages.filter(message => !message.threadParentId)
+  }
+  const parentIndex = messages.findIndex(message => message.id === threadParentId)
+  return messages.filter((message, index) =>
+    message.threadParentId === threadParentId || (!message.threadParentId && index <= parentIndex)
+  )
+}
+
+export function getThreadReplies(messages: ChatMessage[], parentId: string): ChatMessage[] {
+  return messages.filter(message => message.threadParentId === parentId)
+}
+
+/**
+ * Converts stored chat messages into provider-neutral turns, skipping
+ * error bubbles, compare-mode replies that were not picked and empty
+ * streaming placeholders. Reasoning is never sent
+ * back; messages saved before it was split out may still carry <think> blocks.
+ * Without `images`, attachments are replaced by a note naming them.
+ */
+export function toConversationTurns(messages: ChatMessage[], options: { images?: boolean } = {}): ConversationTurn[] {
+  return messages
+    .filter(message => !message.isError && (!message.comparison || message.comparison.chosen))
+    .map((message): ConversationTurn => {
+      const content = message.role === 'assistant' ? splitReasoning(message.content).answer : message.content
+      const attachments = message.attachments || []
+      if (attachments.length === 0) {
+        return { role: message.role, content }
+      }
+      // Images whose data this browser no longer has can only be named
+      const images = options.images ? attachments.filter(image => image.data !== '') : []
+      const unsent = attachments.filter(image => images.indexOf(image) === -1)
+      if (unsent.length === 0) {
+        return { role: message.role, content, images }
+      }
+      const note = `[${unsent.length === 1 ? 'Image' : 'Images'} not shown to this model: ${unsent.map(image => image.name).join(', ')}]`
+      const text = content ? `${content}\n\n${note}` : note
+      return images.length > 0 ? { role: message.role, content: text, images } : { role: message.role, content: text }
+    })
+    .filter(turn => turn.content.trim() !== '' || !!turn.images?.length)
+}
+
+/**
+ * Drops the oldest turns until the conversation fits the model's context window,
+ * leaving room for the system prompt and the completion. The latest turn is always
+ * kept, the result always starts with a user turn and consecutive turns from the
+ * same role are merged so strict providers (Anthropic) accept the sequence.
+ */
+export function fitConversationToBudget(
+  turns: ConversationTurn[],
+  options: {
+    contextWindow?: number
+    systemPrompt?: string
+    maxTokens: number
+  }
+): ConversationTurn[] {
+  const { contextWindow = DEFAULT_CONTEXT_WINDOW, systemPrompt = '', maxTokens } = options
+
+  const merged = mergeConsecutiveTurns(turns)
+  if (merged.length === 0) return merged
+
+  let budget = contextWindow - maxTokens - estimateTokens(systemPrompt) - MESSAGE_OVERHEAD_TOKENS
+  const kept: ConversationTurn[] = []
+
+  for (let i = merged.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(merged[i].content) + (merged[i].images?.length || 0) * IMAGE_TOKEN_ESTIMATE + MESSAGE_OVERHEAD_TOKENS
+    if (kept.length > 0 && cost > budget) break
+    budget -= cost
+    kept.unshift(merged[i])
+  }
+
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift()
+  }
+
+  return kept
+}
+
+function mergeConsecutiveTurns(turns: ConversationTurn[]): ConversationTurn[] {
+  const merged: ConversationTurn[] = []
+
+  for (const turn of turns) {
+    const previous = merged[merged.length - 1]
+    // Tool turns must stay paired with their calls, so they are never merged
+    if (previous && previous.role === turn.role && !hasToolData(previous) && !hasToolData(turn)) {
+      const images = [...(previous.images || []), ...(turn.images || [])]
+      merged[merged.length - 1] = {
+        ...previous,
+        content: [previous.content, turn.content].filter(Boolean).join('\n\n'),
+        ...(images.length > 0 ? { images } : {})
+      }
+    } else {
+      merged.push({ ...turn })
+    }
+  }
+
+  return merged
+}
+
+function hasToolData(turn: ConversationTurn): boolean {
+  return !!(turn.toolCalls?.length || turn.toolResults?.length)
+}
@@ -0,0 +1,328 @@
+import { ChatMessage, Conversation, MessageBranch, MessageVersions, PlaygroundSnapshot, useAppStore } from '@/store/app-store'
+import type { ImageAttachment } from './attachments'
+import { CodeFile, extractCodeFiles, getEntryFile } from './code-files'
+import { getBranchMessages, getThreadReplies } from './conversation-context'
+import { joinReasoning, splitReasoning } from './reasoning'
+
+export const CONVERSATION_EXPORT_FORMAT = 'xrai-conversation'
+export const CONVERSATION_EXPORT_VERSION = 1
+
+export type ConversationExportFormat = 'markdown' | 'html' | 'json'
+
+/**
+ * The JSON export. The conversation is kept exactly as stored (branches,
+ * threads, attachments and usage included), alongside what it ran with and
+ * the playground code it ended on, so an import restores all of it.
+ */
+export interface ConversationExport {
+  format: typeof CONVERSATION_EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  conversation: Conversation
+  library?: { id: string; name: string; version: string }
+  model?: { provider: string; providerName: string; id: string; name: string }
+  // The app's settings at export time; conversations do not keep their own
+  parameters: { temperature: number; topP: number; thinkingBudget: number; systemPrompt: string }
+  project: PlaygroundSnapshot
+}
+
+// A top-level message with the replies in its thread, in transcript order
+export interface TranscriptEntry {
+  message: ChatMessage
+  replies: ChatMessage[]
+}
+
+/**
+ * Collects a conversation for export. The open conversation takes the
+ * playground as it is; any other one takes the code of its last reply that
+ * had some.
+ */
+export function buildConversationExport(conversation: Conversation): ConversationExport {
+  const state = useAppStore.getState()
+  const library = state.libraries.find(l => l.id === conversation.library3DID)
+  const provider = state.providers.find(p => p.id === conversation.providerUsed)
+  const model = provider?.models.find(m => m.id === conversation.modelUsed)
+
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation,
+    library: library && { id: library.id, name: library.name, version: library.version },
+    model: provider && model && { provider: provider.id, providerName: provider.name, id: model.id, name: model.name },
+    parameters: {
+      temperature: state.settings.temperature,
+      topP: state.settings.topP,
+      thinkingBudget: state.settings.thinkingBudget,
+      systemPrompt: state.settings.systemPrompt
+    },
+    project: conversation.id === state.activeConversationId
+      ? { code: state.currentCode, codeFiles: state.codeFiles, codeEntryPath: state.codeEntryPath }
+      : getLastReplyCode(conversation.messages, conversation.library3DID)
+  }
+}
+
+/**
+ * The branch on screen, with thread replies under the message they belong to.
+ */
+export function getTranscriptEntries(conversation: Conversation): TranscriptEntry[] {
+  return getBranchMessages(conversation.messages).map(message => ({
+    message,
+    replies: getThreadReplies(conversation.messages, message.id)
+  }))
+}
+
+export function describeSpeaker(message: ChatMessage): string {
+  if (message.role === 'user') return message.autoFix ? 'Auto-fix' : 'User'
+  const notes = [
+    message.model,
+    message.isError && 'error',
+    message.interrupted && 'interrupted',
+    message.comparison && (message.comparison.chosen ? 'compared, chosen' : 'compared')
+  ].filter(Boolean)
+  return notes.length > 0 ? `Assistant (${notes.join(', ')})` : 'Assistant'
+}
+
+// Reasoning is kept apart from the answer, also for replies saved with <think> blocks
+export function getMessageParts(message: ChatMessage): { answer: string; reasoning: string } {
+  if (message.role === 'user') return { answer: message.content, reasoning: '' }
+  const parts = splitReasoning(message.content)
+  return { answer: parts.answer, reasoning: joinReasoning(message.reasoning, parts.reasoning) }
+}
+
+/**
+ * Files of the final code, with the entry file last; a single-file project
+ * becomes one file named after the library's usual extension.
+ */
+export function getProjectFiles(exported: ConversationExport): CodeFile[] {
+  const { project } = exported
+  if (project.codeFiles.length > 0) {
+    return project.codeFiles.slice().sort((a, b) =>
+      (a.path === project.codeEntryPath ? 1 : 0) - (b.path === project.codeEntryPath ? 1 : 0)
+    )
+  }
+  if (!project.code.trim()) return []
+  const jsx = exported.library?.id === 'react-three-fiber'
+  return [{ path: jsx ? 'scene.jsx' : 'scene.js', language: jsx ? 'jsx' : 'javascript', content: project.code }]
+}
+
+export function toConversationMarkdown(exported: ConversationExport): string {
+  const { conversation, library, model, parameters } = exported
+  const lines: string[] = [`# ${conversation.title}`, '']
+
+  if (library) lines.push(`- **Library:** ${library.name} v${library.version}`)
+  if (model) lines.push(`- **Model:** ${model.name} (${model.providerName})`)
+  lines.push(`- **Temperature:** ${parameters.temperature} • **Top-p:** ${parameters.topP}`)
+  lines.push(`- **Started:** ${new Date(conversation.createdAt).toLocaleString()}`)
+  lines.push(`- **Exported:** ${new Date(exported.exportedAt).toLocaleString()}`, '')
+
+  getTranscriptEntries(conversation).forEach(({ message, replies }) => {
+    lines.push('---', '', ...messageToMarkdown(message, '##'))
+    if (replies.length > 0) {
+      const thread = replies.map(reply => messageToMarkdown(reply, '####').join('\n')).join('\n')
+      lines.push(`> **Thread (${replies.length} ${replies.length === 1 ? 'reply' : 'replies'})**`, '>')
+      lines.push(...thread.split('\n').map(line => line ? `> ${line}` : '>'), '')
+    }
+  })
+
+  const files = getProjectFiles(exported)
+  if (files.length > 0) {
+    lines.push('---', '', '## Final code', '')
+    files.forEach(file => {
+      if (files.length > 1) lines.push(`**${file.path}**`, '')
+      lines.push(fence(file.content, file.language), '')
+    })
+  }
+
+  return lines.join('\n')
+}
+
+export function toConversationJson(exported: ConversationExport): string {
+  return JSON.stringify(exported, null, 2)
+}
+
+/**
+ * Reads a JSON export back, checking enough of its shape that the chat can
+ * render it. Malformed attachments, files and branches are dropped; a missing
+ * title or unreadable message throws with a message fit for the user.
+ */
+export function parseConversationExport(text: string): ConversationExport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (!isRecord(data) || data.format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new Error('The file is not an XRAiAssistant conversation export')
+  }
+  if (typeof data.version !== 'number' || data.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error('The export was made by a newer version of the app')
+  }
+
+  const conversation = isRecord(data.conversation) ? data.conversation : {}
+  const messages = readMessages(conversation.messages)
+  if (typeof conversation.title !== 'string' || !messages) {
+    throw new Error('The export has no readable conversation')
+  }
+
+  const createdAt = typeof conversation.createdAt === 'number' ? conversation.createdAt : Date.now()
+  const settings = useAppStore.getState().settings
+  const parameters = isRecord(data.parameters) ? data.parameters : {}
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date().toISOString(),
+    conversation: {
+      id: typeof conversation.id === 'string' ? conversation.id : '',
+      title: conversation.title,
+      messages,
+      createdAt,
+      updatedAt: typeof conversation.updatedAt === 'number' ? conversation.updatedAt : createdAt,
+      library3DID: optionalString(conversation.library3DID),
+      modelUsed: optionalString(conversation.modelUsed),
+      providerUsed: optionalString(conversation.providerUsed)
+    },
+    library: isExportedLibrary(data.library) ? data.library : undefined,
+    model: isExportedModel(data.model) ? data.model : undefined,
+    parameters: {
+      temperature: typeof parameters.temperature === 'number' ? parameters.temperature : settings.temperature,
+      topP: typeof parameters.topP === 'number' ? parameters.topP : settings.topP,
+      thinkingBudget: typeof parameters.thinkingBudget === 'number' ? parameters.thinkingBudget : settings.thinkingBudget,
+      systemPrompt: typeof parameters.systemPrompt === 'string' ? parameters.systemPrompt : settings.systemPrompt
+    },
+    project: readSnapshot(data.project)
+  }
+}
+
+export function getExportFilename(conversation: Conversation, format: ConversationExportFormat): string {
+  const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+  const extension = format === 'markdown' ? 'md' : format
+  return `${slug || 'conversation'}.${extension}`
+}
+
+function messageToMarkdown(message: ChatMessage, heading: string): string[] {
+  const { answer, reasoning } = getMessageParts(message)
+  const lines = [`${heading} ${describeSpeaker(message)} · ${new Date(message.timestamp).toLocaleString()}`, '']
+
+  if (reasoning) {
+    lines.push('<details><summary>Thought process</summary>', '', reasoning, '', '</details>', '')
+  }
+  if (message.attachments && message.attachments.length > 0) {
+    lines.push(`_Attached: ${message.attachments.map(image => image.name).join(', ')}_`, '')
+  }
+  if (answer.trim()) {
+    lines.push(answer.trim(), '')
+  }
+  return lines
+}
+
+// A fence longer than any backtick run in the code, so the block cannot end early
+function fence(content: string, language: string): string {
+  const longestRun = (content.match(/`+/g) || []).reduce((longest, run) => Math.max(longest, run.length), 0)
+  const marker = '`'.repeat(Math.max(3, longestRun + 1))
+  return `${marker}${language}\n${content.replace(/\n$/, '')}\n${marker}`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function isCodeFile(value: unknown): value is CodeFile {
+  return isRecord(value) &&
+    typeof value.path === 'string' && typeof value.language === 'string' && typeof value.content === 'string'
+}
+
+function isImageAttachment(value: unknown): value is ImageAttachment {
+  return isRecord(value) &&
+    typeof value.id === 'string' && typeof value.name === 'string' &&
+    typeof value.mediaType === 'string' && typeof value.data === 'string' &&
+    (value.source === 'upload' || value.source === 'screenshot')
+}
+
+function isExportedLibrary(value: unknown): value is ConversationExport['library'] {
+  return isRecord(value) &&
+    typeof value.id === 'string' && typeof value.name === 'string' && typeof value.version === 'string'
+}
+
+function isExportedModel(value: unknown): value is ConversationExport['model'] {
+  return isRecord(value) &&
+    typeof value.provider === 'string' && typeof value.providerName === 'string' &&
+    typeof value.id === 'string' && typeof value.name === 'string'
+}
+
+function readSnapshot(value: unknown): PlaygroundSnapshot {
+  const snapshot = isRecord(value) ? value : {}
+  return {
+    code: typeof snapshot.code === 'string' ? snapshot.code : '',
+    codeFiles: Array.isArray(snapshot.codeFiles) ? snapshot.codeFiles.filter(isCodeFile) : [],
+    codeEntryPath: typeof snapshot.codeEntryPath === 'string' ? snapshot.codeEntryPath : null
+  }
+}
+
+// Null when any message lacks its id, role or content
+function readMessages(value: unknown): ChatMessage[] | null {
+  if (!Array.isArray(value)) return null
+  const messages = value.map(readMessage)
+  return messages.every((message): message is ChatMessage => message !== null) ? messages : null
+}
+
+/**
+ * The remaining optional fields are display details and kept as exported;
+ * the ones the chat iterates over are checked.
+ */
+function readMessage(value: unknown): ChatMessage | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.content !== 'string' ||
+    (value.role !== 'user' && value.role !== 'assistant')) {
+    return null
+  }
+
+  const { attachments, files, versions, ...rest } = value
+  const validAttachments = Array.isArray(attachments) ? attachments.filter(isImageAttachment) : []
+  const validFiles = Array.isArray(files) ? files.filter(isCodeFile) : undefined
+  const validVersions = readVersions(versions)
+  return {
+    ...rest,
+    id: value.id,
+    role: value.role,
+    content: value.content,
+    timestamp: typeof value.timestamp === 'number' ? value.timestamp : Date.now(),
+    attachments: validAttachments.length > 0 ? validAttachments : undefined,
+    files: validFiles,
+    versions: validVersions
+  }
+}
+
+// Branches are addressed by position, so one bad branch drops them all
+function readVersions(value: unknown): MessageVersions | undefined {
+  if (!isRecord(value) || !Array.isArray(value.branches) || typeof value.active !== 'number') return undefined
+
+  const branches: MessageBranch[] = []
+  for (let i = 0; i < value.branches.length; i++) {
+    const branch: unknown = value.branches[i]
+    const messages = isRecord(branch) ? readMessages(branch.messages) : null
+    if (!messages) return undefined
+    branches.push({ ...readSnapshot(branch), messages })
+  }
+  const active = value.active
+  return Number.isInteger(active) && active >= 0 && active < branches.length ? { active, branches } : undefined
+}
+
+function getLastReplyCode(messages: ChatMessage[], libraryId?: string): PlaygroundSnapshot {
+  const replies = getBranchMessages(messages).filter(message => message.role === 'assistant' && !message.isError)
+  for (let i = replies.length - 1; i >= 0; i--) {
+    const files = replies[i].files || extractCodeFiles(replies[i].content)
+    const entry = getEntryFile(files, libraryId)
+    if (entry) {
+      return files.length > 1
+        ? { code: entry.content, codeFiles: files, codeEntryPath: entry.path }
+        : { code: entry.content, codeFiles: [], codeEntryPath: null }
+    }
+  }
+  return { code: '', codeFiles: [], codeEntryPath: null }
+}
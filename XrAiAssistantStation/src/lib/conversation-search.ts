@@ -0,0 +1,186 @@
+import type { ChatMessage, Conversation } from '@/store/app-store'
+import { CodeFile, extractCodeFiles } from './code-files'
+import { splitReasoning } from './reasoning'
+
+/**
+ * One searchable piece of a conversation: a message's text, or a code block
+ * from a reply. Library and model fall back to the conversation's for
+ * prompts, which do not record them.
+ */
+export interface SearchDocument {
+  conversationId: string
+  conversationTitle: string
+  messageId: string
+  role: ChatMessage['role']
+  // Set on code documents
+  file?: CodeFile
+  // Every code block of the reply, so the whole set can be opened
+  files?: CodeFile[]
+  text: string
+  library?: string
+  provider?: string
+  model?: string
+  timestamp: number
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[]
+  // Lowercased token -> positions in documents
+  postings: Record<string, number[]>
+}
+
+export interface SearchFilters {
+  library?: string
+  provider?: string
+  model?: string
+  // Inclusive timestamp bounds
+  from?: number
+  to?: number
+}
+
+export interface SearchResult {
+  document: SearchDocument
+  score: number
+  // Text around the best match, with the matched ranges in it
+  snippet: string
+  highlights: Array<{ start: number; end: number }>
+}
+
+export const MAX_SEARCH_RESULTS = 50
+const SNIPPET_BEFORE = 60
+const SNIPPET_AFTER = 140
+const FENCED_BLOCK = /```[\s\S]*?(```|$)/g
+
+/**
+ * Indexes the messages of every conversation, thread replies included.
+ * Fenced blocks of replies are indexed as code documents rather than as part
+ * of the reply's text, so a match in code is listed once, as code. Error
+ * bubbles and model reasoning are left out.
+ */
+export function buildSearchIndex(conversations: Conversation[]): SearchIndex {
+  const documents: SearchDocument[] = []
+  const postings: Record<string, number[]> = {}
+
+  const add = (document: SearchDocument) => {
+    const position = documents.push(document) - 1
+    uniqueTokens(document.text).forEach(token => {
+      (postings[token] = postings[token] || []).push(position)
+    })
+  }
+
+  conversations.forEach(conversation => {
+    conversation.messages.forEach(message => {
+      if (message.isError) return
+      const base = {
+        conversationId: conversation.id,
+        conversationTitle: conversation.title,
+        messageId: message.id,
+        role: message.role,
+        library: message.library || conversation.library3DID,
+        provider: message.provider || conversation.providerUsed,
+        model: message.model || conversation.modelUsed,
+        timestamp: message.timestamp
+      }
+
+      if (message.role === 'user') {
+        if (message.content.trim()) add({ ...base, text: message.content })
+        return
+      }
+
+      const answer = splitReasoning(message.content).answer
+      const files = message.files || extractCodeFiles(message.content)
+      const prose = files.length > 0 ? answer.replace(FENCED_BLOCK, ' ') : answer
+      if (prose.trim()) add({ ...base, text: prose.replace(/\s+/g, ' ').trim() })
+      files.forEach(file => add({ ...base, file, files, text: file.content }))
+    })
+  })
+
+  return { documents, postings }
+}
+
+/**
+ * Documents containing every word of the query, each word also matching as
+ * a prefix ("port" finds "portal"). Ranked by how often the words occur,
+ * with the exact phrase counting extra, then by recency.
+ */
+export function searchIndex(index: SearchIndex, query: string, filters: SearchFilters = {}): SearchResult[] {
+  const terms = uniqueTokens(query)
+  if (terms.length === 0) return []
+
+  const tokens = Object.keys(index.postings)
+  let candidates: number[] | undefined
+  for (const term of terms) {
+    const matching: Record<number, true> = {}
+    tokens.forEach(token => {
+      if (token.indexOf(term) === 0) {
+        index.postings[token].forEach(position => {
+          matching[position] = true
+        })
+      }
+    })
+    candidates = (candidates || Object.keys(matching).map(Number)).filter(position => matching[position])
+  }
+
+  const phrase = query.trim().toLowerCase()
+  return (candidates || [])
+    .map(position => index.documents[position])
+    .filter(document => matchesFilters(document, filters))
+    .map(document => scoreDocument(document, terms, phrase))
+    .sort((a, b) => b.score - a.score || b.document.timestamp - a.document.timestamp)
+    .slice(0, MAX_SEARCH_RESULTS)
+}
+
+function matchesFilters(document: SearchDocument, filters: SearchFilters): boolean {
+  if (filters.library && document.library !== filters.library) return false
+  if (filters.provider && document.provider !== filters.provider) return false
+  if (filters.model && document.model !== filters.model) return false
+  if (filters.from !== undefined && document.timestamp < filters.from) return false
+  if (filters.to !== undefined && document.timestamp > filters.to) return false
+  return true
+}
+
+function scoreDocument(document: SearchDocument, terms: string[], phrase: string): SearchResult {
+  const lower = document.text.toLowerCase()
+  const ranges: Array<{ start: number; end: number }> = []
+  terms.forEach(term => {
+    for (let at = lower.indexOf(term); at !== -1; at = lower.indexOf(term, at + term.length)) {
+      ranges.push({ start: at, end: at + term.length })
+    }
+  })
+  const phraseAt = terms.length > 1 ? lower.indexOf(phrase) : -1
+  const score = ranges.length + (phraseAt !== -1 ? 5 : 0)
+
+  // Center the snippet on the phrase, or else on the first match
+  const sorted = ranges.sort((a, b) => a.start - b.start)
+  const anchor = phraseAt !== -1 ? phraseAt : sorted.length > 0 ? sorted[0].start : 0
+  const start = Math.max(0, anchor - SNIPPET_BEFORE)
+  const end = Math.min(document.text.length, anchor + SNIPPET_AFTER)
+  const prefix = start > 0 ? '…' : ''
+  const snippet = prefix + document.text.slice(start, end) + (end < document.text.length ? '…' : '')
+  const highlights = mergeRanges(sorted
+    .filter(range => range.start >= start && range.end <= end)
+    .map(range => ({ start: range.start - start + prefix.length, end: range.end - start + prefix.length })))
+
+  return { document, score, snippet, highlights }
+}
+
+function mergeRanges(ranges: Array<{ start: number; end: number }>): Array<{ start: number; end: number }> {
+  return ranges.reduce<Array<{ start: number; end: number }>>((merged, range) => {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+    return merged
+  }, [])
+}
+
+function uniqueTokens(text: string): string[] {
+  const seen: Record<string, true> = {}
+  return (text.toLowerCase().match(/[a-z0-9_$\u00c0-\uffff]+/g) || []).filter(token => {
+    if (seen[token]) return false
+    seen[token] = true
+    return true
+  })
+}
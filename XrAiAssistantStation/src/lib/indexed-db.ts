@@ -0,0 +1,44 @@
+/**
+ * Runs requests against one object store in a single transaction, resolving
+ * with the returned request's result once the transaction commits.
+ */
+export type ObjectStoreRunner = <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest | void
+) => Promise<T>
+
+/**
+ * A database holding a single object store, opened on first use. A failed
+ * open is retried by the next call.
+ */
+export function createObjectStoreRunner(dbName: string, storeName: string, keyPath: string): ObjectStoreRunner {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName, { keyPath })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      dbPromise.catch(() => {
+        dbPromise = null
+      })
+    }
+    return dbPromise
+  }
+
+  return async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest | void): Promise<T> => {
+    const db = await openDatabase()
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      const request = run(transaction.objectStore(storeName))
+      transaction.oncomplete = () => resolve((request ? request.result : undefined) as T)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+}
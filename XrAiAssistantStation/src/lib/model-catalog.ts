@@ -0,0 +1,178 @@
+import type { AIModel, AIProvider } from '@/store/app-store'
+import { AIService, ConnectionMode, DiscoveredModel } from './ai-service'
+
+const CACHE_STORAGE_KEY = 'xrai-model-catalog'
+
+// Provider model lists change slowly; refetch at most every six hours
+export const MODEL_CATALOG_TTL_MS = 6 * 60 * 60 * 1000
+
+interface CatalogCacheEntry {
+  baseUrl: string
+  fetchedAt: number
+  models: DiscoveredModel[]
+}
+
+export interface CatalogResult {
+  models: AIModel[]
+  // When the discovered part was fetched; null when only curated models are known
+  fetchedAt: number | null
+  fromCache: boolean
+}
+
+/**
+ * Discovers each provider's models from its list-models endpoint, caches the
+ * result in localStorage and merges it with the curated metadata shipped in
+ * the store (descriptions, pricing, context windows).
+ */
+export class ModelCatalogService {
+  private static instance: ModelCatalogService
+
+  public static getInstance(): ModelCatalogService {
+    if (!ModelCatalogService.instance) {
+      ModelCatalogService.instance = new ModelCatalogService()
+    }
+    return ModelCatalogService.instance
+  }
+
+  /**
+   * Returns curated + discovered models for a provider. Uses the cache while it
+   * is fresh; otherwise queries the provider (when a key is available, the
+   * adapter does not need one or the proxy supplies it). Network failures fall
+   * back to stale cache.
+   */
+  async getModels(
+    provider: AIProvider,
+    curated: AIModel[],
+    apiKey: string,
+    options: { forceRefresh?: boolean; keyOptional?: boolean; connection?: ConnectionMode; proxyToken?: string } = {}
+  ): Promise<CatalogResult> {
+    const cached = this.readCache(provider)
+    const isFresh = cached !== null && Date.now() - cached.fetchedAt < MODEL_CATALOG_TTL_MS
+
+    if (cached && isFresh && !options.forceRefresh) {
+      return { models: mergeModels(curated, cached.models), fetchedAt: cached.fetchedAt, fromCache: true }
+    }
+
+    const hasKey = apiKey.trim() !== '' && apiKey !== 'changeMe'
+    if (!hasKey && !options.keyOptional && options.connection !== 'proxy') {
+      if (options.forceRefresh) {
+        throw new Error(`Add your ${provider.name} API key to load its models`)
+      }
+      return {
+        models: mergeModels(curated, cached?.models || []),
+        fetchedAt: cached?.fetchedAt ?? null,
+        fromCache: cached !== null
+      }
+    }
+
+    try {
+      const discovered = await AIService.getInstance().listModels({
+        provider: provider.id,
+        adapter: provider.adapter,
+        baseUrl: provider.baseUrl,
+        apiKey,
+        connection: options.connection,
+        proxyToken: options.proxyToken
+      })
+      const entry: CatalogCacheEntry = { baseUrl: provider.baseUrl, fetchedAt: Date.now(), models: discovered }
+      this.writeCache(provider.id, entry)
+      return { models: mergeModels(curated, discovered), fetchedAt: entry.fetchedAt, fromCache: false }
+    } catch (error) {
+      if (options.forceRefresh || !cached) {
+        throw error
+      }
+      console.warn(`Model catalog refresh failed for ${provider.name}, using cached list:`, error)
+      return { models: mergeModels(curated, cached.models), fetchedAt: cached.fetchedAt, fromCache: true }
+    }
+  }
+
+  /**
+   * Curated + cached models without touching the network.
+   */
+  getCachedModels(provider: AIProvider, curated: AIModel[]): AIModel[] {
+    return mergeModels(curated, this.readCache(provider)?.models || [])
+  }
+
+  clearCache(providerId?: string): void {
+    if (typeof window === 'undefined') return
+
+    if (!providerId) {
+      window.localStorage.removeItem(CACHE_STORAGE_KEY)
+      return
+    }
+    const cache = this.readAll()
+    delete cache[providerId]
+    window.localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache))
+  }
+
+  private readCache(provider: AIProvider): CatalogCacheEntry | null {
+    const entry = this.readAll()[provider.id]
+    // A different endpoint (custom providers) invalidates what was discovered before
+    return entry && entry.baseUrl === provider.baseUrl ? entry : null
+  }
+
+  private writeCache(providerId: string, entry: CatalogCacheEntry): void {
+    if (typeof window === 'undefined') return
+
+    const cache = this.readAll()
+    cache[providerId] = entry
+    try {
+      window.localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache))
+    } catch (error) {
+      console.warn('Failed to persist model catalog cache:', error)
+    }
+  }
+
+  private readAll(): Record<string, CatalogCacheEntry> {
+    if (typeof window === 'undefined') return {}
+
+    try {
+      return JSON.parse(window.localStorage.getItem(CACHE_STORAGE_KEY) || '{}')
+    } catch (error) {
+      return {}
+    }
+  }
+}
+
+/**
+ * Curated models come first and keep their metadata (filling gaps such as the
+ * context window from discovery); discovered-only models follow.
+ */
+export function mergeModels(curated: AIModel[], discovered: DiscoveredModel[]): AIModel[] {
+  const discoveredById: Record<string, DiscoveredModel> = {}
+  for (const model of discovered) {
+    discoveredById[model.id] = model
+  }
+
+  const merged: AIModel[] = curated.map(model => {
+    const live = discoveredById[model.id]
+    return {
+      ...model,
+      cost: model.cost ?? live?.cost,
+      contextWindow: model.contextWindow ?? live?.contextWindow,
+      source: 'curated' as const
+    }
+  })
+
+  const curatedIds: Record<string, boolean> = {}
+  for (const model of curated) {
+    curatedIds[model.id] = true
+  }
+
+  for (const model of discovered) {
+    if (curatedIds[model.id]) continue
+    merged.push({
+      id: model.id,
+      name: model.name,
+      description: model.description || 'Discovered from provider',
+      pricing: model.pricing || 'See provider pricing',
+      cost: model.cost,
+      contextWindow: model.contextWindow,
+      source: 'discovered'
+    })
+  }
+
+  return merged
+}
+
+export const modelCatalog = ModelCatalogService.getInstance()
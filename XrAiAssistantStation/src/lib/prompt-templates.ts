@@ -0,0 +1,197 @@
+import type { Library3D } from '@/store/app-store'
+
+export type PromptIntent = 'new-scene' | 'modify' | 'explain' | 'debug'
+
+/**
+ * Wraps the user's message before it is sent. Bodies use `{{variable}}`
+ * placeholders and `{{#variable}}…{{/variable}}` sections that are only kept
+ * when the variable is non-empty (`{{^variable}}` for when it is empty).
+ */
+export interface PromptTemplate {
+  // `${library}:${intent}`; one template per library and intent
+  id: string
+  name: string
+  // Library3D.id, or ALL_LIBRARIES for the fallback used by every library
+  library: string
+  intent: PromptIntent
+  body: string
+}
+
+export interface PromptVariables {
+  message: string
+  libraryName: string
+  libraryVersion: string
+  libraryDescription: string
+  codeTemplate: string
+  // Fence language for the library's code (jsx or javascript)
+  codeLanguage: string
+  currentCode: string
+  // Runtime errors the scene reported, one per line
+  errors: string
+}
+
+export const ALL_LIBRARIES = '*'
+
+export const PROMPT_INTENTS: Array<{ id: PromptIntent; label: string }> = [
+  { id: 'new-scene', label: 'New scene' },
+  { id: 'modify', label: 'Modify' },
+  { id: 'explain', label: 'Explain' },
+  { id: 'debug', label: 'Debug' }
+]
+
+export const PROMPT_VARIABLES: Array<{ name: keyof PromptVariables; description: string }> = [
+  { name: 'message', description: 'What the user typed' },
+  { name: 'libraryName', description: 'Selected 3D library, e.g. Babylon.js' },
+  { name: 'libraryVersion', description: 'Library version' },
+  { name: 'libraryDescription', description: 'One-line library description' },
+  { name: 'codeTemplate', description: "The library's starter scene" },
+  { name: 'codeLanguage', description: 'jsx for React Three Fiber, otherwise javascript' },
+  { name: 'currentCode', description: 'Playground code (already in the system prompt)' },
+  { name: 'errors', description: 'Runtime errors from the last run, empty when there are none' }
+]
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: promptTemplateId(ALL_LIBRARIES, 'new-scene'),
+    name: 'New scene from the starter template',
+    library: ALL_LIBRARIES,
+    intent: 'new-scene',
+    body: [
+      '{{message}}',
+      '',
+      'Build a complete {{libraryName}} v{{libraryVersion}} scene. Use this as a starting template:',
+      '```{{codeLanguage}}',
+      '{{codeTemplate}}',
+      '```'
+    ].join('\n')
+  },
+  {
+    id: promptTemplateId(ALL_LIBRARIES, 'modify'),
+    name: 'Change the current scene',
+    library: ALL_LIBRARIES,
+    intent: 'modify',
+    body: '{{message}}\n\nChange only what this asks for and keep the rest of the current scene as it is.'
+  },
+  {
+    id: promptTemplateId(ALL_LIBRARIES, 'explain'),
+    name: 'Explain without rewriting',
+    library: ALL_LIBRARIES,
+    intent: 'explain',
+    body: '{{message}}\n\nAnswer with an explanation rather than new code; quote only the lines that matter.'
+  },
+  {
+    id: promptTemplateId(ALL_LIBRARIES, 'debug'),
+    name: 'Debug with the reported errors',
+    library: ALL_LIBRARIES,
+    intent: 'debug',
+    body: [
+      '{{message}}',
+      '{{#errors}}',
+      '',
+      'The scene currently reports:',
+      '{{errors}}',
+      '{{/errors}}',
+      '',
+      'Find the cause, explain it in a sentence or two and fix it with the smallest change.'
+    ].join('\n')
+  }
+]
+
+const DEBUG_PATTERN = /\b(errors?|bugs?|broken|crash(?:es|ed|ing)?|exceptions?|fix|fails?|failing|not (?:working|showing|rendering|visible|loading)|(?:doesn'?t|does not|won'?t|isn'?t|can'?t) (?:work|show|render|load|move|appear)|black screen|blank|undefined|NaN)\b/i
+const EXPLAIN_PATTERN = /^(?:what|why|how|which|where)\b|\b(?:explain|describe|walk me through|tell me (?:about|how|why)|what (?:does|is|are)|how (?:does|do|is)|difference between)\b/i
+const CHANGE_PATTERN = /\b(?:add|change|make|update|modify|replace|remove|delete|move|rotate|scale|resize|increase|decrease|tweak|set|turn|swap|animate|instead)\b/i
+// A request that should start over even though the playground already has code
+const FRESH_SCENE_PATTERN = /\b(?:new scene|from scratch|start over|another scene|different scene)\b|^(?:please\s+)?(?:create|build|generate)\s+(?:me\s+)?(?:an?|the)\b/i
+
+export function promptTemplateId(library: string, intent: PromptIntent): string {
+  return `${library}:${intent}`
+}
+
+/**
+ * Guesses what the message asks for from keywords and the playground state.
+ * Without code there is nothing to modify or debug, so anything but a
+ * question starts a new scene.
+ */
+export function classifyIntent(message: string, context: { hasCode: boolean; hasErrors: boolean }): PromptIntent {
+  const text = message.trim()
+  const isQuestion = EXPLAIN_PATTERN.test(text) && !CHANGE_PATTERN.test(text)
+
+  if (!context.hasCode) {
+    return isQuestion ? 'explain' : 'new-scene'
+  }
+  if (DEBUG_PATTERN.test(text) || (context.hasErrors && /^why\b/i.test(text))) {
+    return 'debug'
+  }
+  if (isQuestion) {
+    return 'explain'
+  }
+  return FRESH_SCENE_PATTERN.test(text) ? 'new-scene' : 'modify'
+}
+
+/**
+ * The shipped templates with the user's edits applied, followed by the
+ * user's library-specific ones.
+ */
+export function getPromptTemplates(custom: PromptTemplate[]): PromptTemplate[] {
+  const customById: Record<string, PromptTemplate> = {}
+  custom.forEach(template => {
+    customById[template.id] = template
+  })
+
+  const defaults = DEFAULT_PROMPT_TEMPLATES.map(template => customById[template.id] || template)
+  const extras = custom.filter(template => !DEFAULT_PROMPT_TEMPLATES.some(fallback => fallback.id === template.id))
+  return [...defaults, ...extras]
+}
+
+/**
+ * The library's own template for the intent, falling back to the one for all libraries.
+ */
+export function resolvePromptTemplate(templates: PromptTemplate[], libraryId: string | undefined, intent: PromptIntent): PromptTemplate {
+  return templates.find(template => template.library === libraryId && template.intent === intent)
+    || templates.find(template => template.library === ALL_LIBRARIES && template.intent === intent)
+    || DEFAULT_PROMPT_TEMPLATES.find(template => template.intent === intent) as PromptTemplate
+}
+
+export function renderPromptTemplate(body: string, variables: PromptVariables): string {
+  const values = variables as unknown as Record<string, string>
+  const isSet = (name: string) => !!values[name] && values[name].trim() !== ''
+
+  return body
+    .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_match, kind: string, name: string, section: string) =>
+      (kind === '#') === isSet(name) ? section : '')
+    .replace(/\{\{(\w+)\}\}/g, (match, name: string) => name in values ? values[name] : match)
+    // Dropped sections leave runs of blank lines behind
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+export function getPromptVariables(
+  message: string,
+  library: Library3D | undefined,
+  context: { currentCode: string; errors: string }
+): PromptVariables {
+  return {
+    message,
+    libraryName: library?.name || '',
+    libraryVersion: library?.version || '',
+    libraryDescription: library?.description || '',
+    codeTemplate: library?.codeTemplate || '',
+    codeLanguage: library?.id === 'react-three-fiber' ? 'jsx' : 'javascript',
+    currentCode: context.currentCode,
+    errors: context.errors
+  }
+}
+
+/**
+ * Classifies the message and renders the matching template for the selected library.
+ */
+export function buildUserPrompt(
+  message: string,
+  options: { templates: PromptTemplate[]; library: Library3D | undefined; currentCode: string; errors: string }
+): { intent: PromptIntent; template: PromptTemplate; prompt: string } {
+  const { templates, library, currentCode, errors } = options
+  const intent = classifyIntent(message, { hasCode: currentCode.trim() !== '', hasErrors: errors !== '' })
+  const template = resolvePromptTemplate(templates, library?.id, intent)
+  const prompt = renderPromptTemplate(template.body, getPromptVariables(message, library, { currentCode, errors }))
+  return { intent, template, prompt }
+}
@@ -0,0 +1,225 @@
+import { createStreamError } from '../ai-errors'
+import type { ConversationTurn } from '../conversation-context'
+import { CODE_FILES_SCHEMA, CODE_FILES_SCHEMA_NAME } from './structured-output'
+import type { ProviderAdapter, ProviderRequestParams, TokenUsage } from './types'
+
+// The API rejects smaller thinking budgets
+const MIN_THINKING_BUDGET = 1024
+
+function anthropicHeaders(apiKey: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': '2023-06-01',
+    // Required for calling the Anthropic API straight from the browser
+    'anthropic-dangerous-direct-browser-access': 'true'
+  }
+}
+
+function toTokenUsage(usage?: { input_tokens?: number; output_tokens?: number }): Partial<TokenUsage> | undefined {
+  if (!usage) return undefined
+
+  const result: Partial<TokenUsage> = {}
+  if (usage.input_tokens !== undefined) result.prompt_tokens = usage.input_tokens
+  if (usage.output_tokens !== undefined) result.completion_tokens = usage.output_tokens
+  return result
+}
+
+// Normalizes Anthropic stop reasons to the OpenAI-style values the UI checks for
+function toFinishReason(stopReason: string): string {
+  switch (stopReason) {
+    case 'max_tokens':
+      return 'length'
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop'
+    case 'tool_use':
+      return 'tool_calls'
+    default:
+      return stopReason
+  }
+}
+
+// Tool calls, tool results and images are content blocks on the assistant and user turns
+function toAnthropicMessages(turns: ConversationTurn[]): Record<string, unknown>[] {
+  return turns.map(turn => {
+    if (turn.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: [
+          ...(turn.content ? [{ type: 'text', text: turn.content }] : []),
+          ...turn.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+        ]
+      }
+    }
+    if (turn.toolResults?.length) {
+      return {
+        role: 'user',
+        content: [
+          ...turn.toolResults.map(result => ({
+            type: 'tool_result',
+            tool_use_id: result.toolCallId,
+            content: result.content,
+            ...(result.isError ? { is_error: true } : {})
+          })),
+          ...(turn.content ? [{ type: 'text', text: turn.content }] : [])
+        ]
+      }
+    }
+    if (turn.images?.length) {
+      // Images go before the text that refers to them, as Anthropic recommends
+      return {
+        role: turn.role,
+        content: [
+          ...turn.images.map(image => ({
+            type: 'image',
+            source: { type: 'base64', media_type: image.mediaType, data: image.data }
+          })),
+          ...(turn.content ? [{ type: 'text', text: turn.content }] : [])
+        ]
+      }
+    }
+    return { role: turn.role, content: turn.content }
+  })
+}
+
+// Structured output is a forced call to the code_files tool whose input is the payload
+function toolFields({ tools, toolChoice, responseFormat }: ProviderRequestParams): Record<string, unknown> {
+  if (responseFormat === 'code-files') {
+    return {
+      tools: [{
+        name: CODE_FILES_SCHEMA_NAME,
+        description: 'Return the answer and any code files for the playground',
+        input_schema: CODE_FILES_SCHEMA
+      }],
+      tool_choice: { type: 'tool', name: CODE_FILES_SCHEMA_NAME }
+    }
+  }
+  if (!tools || tools.length === 0) return {}
+
+  return {
+    tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+    tool_choice: { type: toolChoice === 'none' ? 'none' : 'auto' }
+  }
+}
+
+// Thinking requires the default temperature, a max_tokens above the budget and no
+// forced tool call; it is left off for tool turns, whose thinking blocks would
+// have to be sent back verbatim
+function thinkingFields({ thinkingBudget, maxTokens, temperature, tools, responseFormat }: ProviderRequestParams): Record<string, unknown> {
+  const budget = thinkingBudget ? Math.max(thinkingBudget, MIN_THINKING_BUDGET) : 0
+  if (!budget || responseFormat === 'code-files' || (tools && tools.length > 0)) {
+    return { max_tokens: maxTokens, temperature }
+  }
+  return {
+    max_tokens: maxTokens + budget,
+    thinking: { type: 'enabled', budget_tokens: budget }
+  }
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com',
+  capabilities: {
+    streaming: true,
+    streamUsage: true,
+    optionalApiKey: false,
+    structuredOutput: true,
+    toolCalling: true,
+    imageInput: true
+  },
+
+  buildRequest: (params) => ({
+    url: `${params.baseUrl.replace(/\/+$/, '')}/v1/messages`,
+    headers: anthropicHeaders(params.apiKey),
+    // Claude 4.5+ rejects requests that set both temperature and top_p, so only temperature is sent
+    body: {
+      model: params.model,
+      ...thinkingFields(params),
+      ...(params.systemPrompt ? { system: params.systemPrompt } : {}),
+      messages: toAnthropicMessages(params.messages),
+      ...toolFields(params),
+      stream: params.stream
+    }
+  }),
+
+  parseResponse: (data) => {
+    const usage = toTokenUsage(data.usage)
+    const blocks: any[] = data.content || []
+    const toolCalls = blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }))
+    return {
+      content: blocks
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join(''),
+      reasoning: blocks
+        .filter(block => block.type === 'thinking' && block.thinking)
+        .map(block => block.thinking)
+        .join('\n\n') || undefined,
+      model: data.model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: data.stop_reason ? toFinishReason(data.stop_reason) : undefined,
+      usage: usage && {
+        prompt_tokens: usage.prompt_tokens || 0,
+        completion_tokens: usage.completion_tokens || 0,
+        total_tokens: (usage.prompt_tokens || 0) + (usage.completion_tokens || 0)
+      }
+    }
+  },
+
+  parseStreamChunk: (data) => {
+    let event: any
+    try {
+      event = JSON.parse(data)
+    } catch (e) {
+      // Skip invalid JSON
+      return null
+    }
+
+    switch (event.type) {
+      case 'message_start':
+        return { usage: toTokenUsage(event.message?.usage) }
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          return { content: event.delta.text }
+        }
+        if (event.delta?.type === 'thinking_delta' && event.delta.thinking) {
+          return { reasoning: event.delta.thinking }
+        }
+        if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+          return { toolCalls: [{ index: event.index, argumentsDelta: event.delta.partial_json }] }
+        }
+        return null
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use') {
+          return { toolCalls: [{ index: event.index, id: event.content_block.id, name: event.content_block.name }] }
+        }
+        return null
+      case 'message_delta':
+        // message_delta usage is cumulative for the whole response
+        return {
+          usage: toTokenUsage(event.usage),
+          finishReason: event.delta?.stop_reason ? toFinishReason(event.delta.stop_reason) : undefined
+        }
+      case 'message_stop':
+        return { done: true }
+      case 'error':
+        throw createStreamError('Anthropic', event.error?.type, event.error?.message || 'Unknown error')
+      default:
+        // ping, content_block_stop
+        return null
+    }
+  },
+
+  buildListModelsRequest: (baseUrl, apiKey) => ({
+    url: `${baseUrl.replace(/\/+$/, '')}/v1/models?limit=100`,
+    headers: anthropicHeaders(apiKey)
+  }),
+
+  parseModelList: (data) => (data?.data || [])
+    .filter((entry: any) => typeof entry?.id === 'string')
+    .map((entry: any) => ({ id: entry.id, name: entry.display_name || entry.id }))
+}
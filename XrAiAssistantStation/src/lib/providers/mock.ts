@@ -0,0 +1,44 @@
+import { parseChatCompletionsChunk, parseChatCompletionsResponse } from './openai-chat'
+import type { ProviderAdapter, ProviderRequestParams } from './types'
+
+// The mock provider's model ids select what /api/ai/mock does with a request
+export type MockMode = 'scripted' | 'replay' | 'record'
+
+/**
+ * Body of a POST to /api/ai/mock. The endpoint and key are the app's own, so
+ * they are not sent.
+ */
+export type MockChatRequest = Omit<ProviderRequestParams, 'baseUrl' | 'apiKey'>
+
+/**
+ * Offline provider served by this app's /api/ai/mock route: scripted replies
+ * (including errors, rate limits, tool calls and structured output), replays of recorded fixtures, and a
+ * record mode that captures a real provider's replies as fixtures. Replies use
+ * the OpenAI chat-completions format, so the usual parsers and transport
+ * (retries, SSE, error mapping) are exercised unchanged.
+ */
+export const mockAdapter: ProviderAdapter = {
+  id: 'mock',
+  name: 'Mock provider',
+  defaultBaseUrl: '/api/ai/mock',
+  servedByApp: true,
+  capabilities: {
+    streaming: true,
+    streamUsage: true,
+    optionalApiKey: true,
+    structuredOutput: true,
+    toolCalling: true,
+    imageInput: true
+  },
+  buildRequest: (params) => {
+    const { baseUrl, apiKey, ...request } = params
+    const body: MockChatRequest = request
+    return {
+      url: baseUrl,
+      headers: { 'Content-Type': 'application/json' },
+      body: { ...body }
+    }
+  },
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamChunk: (data) => parseChatCompletionsChunk('Mock provider', data)
+}
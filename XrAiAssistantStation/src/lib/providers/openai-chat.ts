@@ -0,0 +1,182 @@
+import { createStreamError } from '../ai-errors'
+import { toDataUrl } from '../attachments'
+import type { ConversationTurn, ToolCall } from '../conversation-context'
+import type { AIResponse, DiscoveredModel, ProviderRequest, ProviderRequestParams, StreamChunkResult } from './types'
+
+/**
+ * Shared wire format for OpenAI-style `/chat/completions` endpoints
+ * (OpenAI, Together AI and compatible servers).
+ */
+export function buildChatCompletionsRequest(
+  params: ProviderRequestParams,
+  extraBody: Record<string, unknown> = {}
+): ProviderRequest {
+  const { baseUrl, apiKey, model, messages, systemPrompt, temperature, topP, maxTokens, stream, tools, toolChoice } = params
+
+  return {
+    url: `${trimBaseUrl(baseUrl)}/chat/completions`,
+    headers: bearerHeaders(apiKey),
+    body: {
+      model,
+      // The system prompt goes in its own leading message
+      messages: [
+        ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+        ...toChatCompletionsMessages(messages)
+      ],
+      temperature,
+      top_p: topP,
+      max_tokens: maxTokens,
+      stream,
+      ...(tools && tools.length > 0
+        ? {
+            tools: tools.map(tool => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+            })),
+            tool_choice: toolChoice || 'auto'
+          }
+        : {}),
+      ...extraBody
+    }
+  }
+}
+
+export function parseChatCompletionsResponse(data: any): AIResponse {
+  const message = data.choices?.[0]?.message
+  const toolCalls: ToolCall[] = (message?.tool_calls || []).map((call: any) => ({
+    id: call.id,
+    name: call.function?.name || '',
+    arguments: parseToolArguments(call.function?.arguments)
+  }))
+
+  return {
+    content: message?.content || '',
+    // DeepSeek, Together and several compatible servers return thinking in its own field
+    reasoning: message?.reasoning_content || message?.reasoning || undefined,
+    model: data.model,
+    usage: data.usage,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    finishReason: data.choices?.[0]?.finish_reason || undefined
+  }
+}
+
+export function parseChatCompletionsChunk(providerName: string, data: string): StreamChunkResult | null {
+  if (data === '[DONE]') {
+    return { done: true }
+  }
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(data)
+  } catch (e) {
+    // Skip invalid JSON
+    return null
+  }
+
+  if (parsed.error) {
+    throw createStreamError(
+      providerName,
+      parsed.error.type || parsed.error.code,
+      parsed.error.message || JSON.stringify(parsed.error)
+    )
+  }
+
+  const choice = parsed.choices?.[0]
+  const toolCalls = choice?.delta?.tool_calls?.map((call: any) => ({
+    index: call.index ?? 0,
+    id: call.id || undefined,
+    name: call.function?.name || undefined,
+    argumentsDelta: call.function?.arguments || undefined
+  }))
+  return {
+    content: choice?.delta?.content || undefined,
+    reasoning: choice?.delta?.reasoning_content || choice?.delta?.reasoning || undefined,
+    toolCalls: toolCalls?.length ? toolCalls : undefined,
+    finishReason: choice?.finish_reason || undefined,
+    // The usage chunk requested via stream_options arrives with an empty choices array
+    usage: parsed.usage || undefined
+  }
+}
+
+export function buildListModelsRequest(baseUrl: string, apiKey: string): Omit<ProviderRequest, 'body'> {
+  return {
+    url: `${trimBaseUrl(baseUrl)}/models`,
+    headers: bearerHeaders(apiKey)
+  }
+}
+
+// `GET /models` returns `{ data: [{ id }] }`; some servers return the bare array
+export function parseModelList(data: any): DiscoveredModel[] {
+  const entries: any[] = Array.isArray(data) ? data : data?.data || []
+  return entries
+    .filter(entry => typeof entry?.id === 'string')
+    .map(entry => ({ id: entry.id, name: entry.display_name || entry.id }))
+}
+
+/**
+ * Parses a tool call's JSON arguments; malformed JSON yields an empty object
+ * so the tool can report what is missing.
+ */
+export function parseToolArguments(json: string | undefined): Record<string, unknown> {
+  if (!json) return {}
+  try {
+    const parsed = JSON.parse(json)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch (error) {
+    return {}
+  }
+}
+
+// Tool calls ride on the assistant message; each tool result is its own `tool` message
+function toChatCompletionsMessages(turns: ConversationTurn[]): Record<string, unknown>[] {
+  const messages: Record<string, unknown>[] = []
+
+  for (const turn of turns) {
+    if (turn.toolResults?.length) {
+      turn.toolResults.forEach(result => {
+        messages.push({ role: 'tool', tool_call_id: result.toolCallId, content: result.content })
+      })
+      if (turn.content) {
+        messages.push({ role: 'user', content: turn.content })
+      }
+    } else if (turn.toolCalls?.length) {
+      messages.push({
+        role: 'assistant',
+        content: turn.content || null,
+        tool_calls: turn.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      })
+    } else if (turn.images?.length) {
+      // Images are content parts with data URLs, after the text
+      messages.push({
+        role: turn.role,
+        content: [
+          ...(turn.content ? [{ type: 'text', text: turn.content }] : []),
+          ...turn.images.map(image => ({ type: 'image_url', image_url: { url: toDataUrl(image) } }))
+        ]
+      })
+    } else {
+      messages.push({ role: turn.role, content: turn.content })
+    }
+  }
+
+  return messages
+}
+
+function trimBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '')
+}
+
+function bearerHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json'
+  }
+  // Local servers usually run without a key
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`
+  }
+  return headers
+}
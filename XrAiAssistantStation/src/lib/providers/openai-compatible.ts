@@ -0,0 +1,40 @@
+import {
+  buildChatCompletionsRequest,
+  buildListModelsRequest,
+  parseChatCompletionsChunk,
+  parseChatCompletionsResponse,
+  parseModelList
+} from './openai-chat'
+import type { DiscoveredModel, ProviderAdapter } from './types'
+
+function parseLocalModelList(data: any): DiscoveredModel[] {
+  return parseModelList(data).map(model => ({ ...model, pricing: 'Self-hosted', cost: { inputPer1M: 0, outputPer1M: 0 } }))
+}
+
+/**
+ * Any server exposing the OpenAI `/chat/completions` and `/models` endpoints
+ * (Ollama, LM Studio, llama.cpp server, vLLM). The base URL comes from the
+ * provider entry and the API key is optional.
+ */
+export const openAICompatibleAdapter: ProviderAdapter = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible endpoint',
+  // Ollama's default OpenAI-compatible endpoint
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  capabilities: {
+    streaming: true,
+    // Not every local server understands stream_options, so usage is only read if sent
+    streamUsage: false,
+    optionalApiKey: true,
+    structuredOutput: false,
+    // Tool support varies by server and model, so agent mode is not offered
+    toolCalling: false,
+    // Local vision models (LLaVA, Gemma 3, ...) take the standard image_url parts
+    imageInput: true
+  },
+  buildRequest: (params) => buildChatCompletionsRequest(params),
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamChunk: (data) => parseChatCompletionsChunk('OpenAI-compatible endpoint', data),
+  buildListModelsRequest,
+  parseModelList: parseLocalModelList
+}
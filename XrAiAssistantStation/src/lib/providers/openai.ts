@@ -0,0 +1,64 @@
+import {
+  buildChatCompletionsRequest,
+  buildListModelsRequest,
+  parseChatCompletionsChunk,
+  parseChatCompletionsResponse,
+  parseModelList
+} from './openai-chat'
+import { CODE_FILES_SCHEMA, CODE_FILES_SCHEMA_NAME } from './structured-output'
+import type { DiscoveredModel, ProviderAdapter, ProviderRequest, ProviderRequestParams } from './types'
+
+// `/v1/models` also lists embedding, audio and image models that cannot chat
+const CHAT_MODEL_PATTERN = /^(gpt-|chatgpt-|o\d)/
+const NON_CHAT_MODEL_PATTERN = /(instruct|audio|realtime|transcribe|tts|search|image|embedding)/
+// Reasoning models reject `max_tokens`, `temperature` and `top_p`; gpt-5-chat is not one
+const REASONING_MODEL_PATTERN = /^(o\d|gpt-5(?!-chat))/
+
+function parseOpenAIModelList(data: any): DiscoveredModel[] {
+  return parseModelList(data).filter(model =>
+    CHAT_MODEL_PATTERN.test(model.id) && !NON_CHAT_MODEL_PATTERN.test(model.id)
+  )
+}
+
+function buildOpenAIRequest(params: ProviderRequestParams): ProviderRequest {
+  const request = buildChatCompletionsRequest(params, {
+    // Ask for a final usage chunk so token counts reach the UI
+    ...(params.stream ? { stream_options: { include_usage: true } } : {}),
+    ...(params.responseFormat === 'code-files'
+      ? {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: CODE_FILES_SCHEMA_NAME, strict: true, schema: CODE_FILES_SCHEMA }
+          }
+        }
+      : {})
+  })
+
+  if (REASONING_MODEL_PATTERN.test(params.model)) {
+    delete request.body.temperature
+    delete request.body.top_p
+    delete request.body.max_tokens
+    // Counts reasoning tokens as well as the visible answer
+    request.body.max_completion_tokens = params.maxTokens
+  }
+  return request
+}
+
+export const openAIAdapter: ProviderAdapter = {
+  id: 'openai',
+  name: 'OpenAI',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  capabilities: {
+    streaming: true,
+    streamUsage: true,
+    optionalApiKey: false,
+    structuredOutput: true,
+    toolCalling: true,
+    imageInput: true
+  },
+  buildRequest: buildOpenAIRequest,
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamChunk: (data) => parseChatCompletionsChunk('OpenAI', data),
+  buildListModelsRequest,
+  parseModelList: parseOpenAIModelList
+}
@@ -0,0 +1,31 @@
+import { anthropicAdapter } from './anthropic'
+import { mockAdapter } from './mock'
+import { openAIAdapter } from './openai'
+import { openAICompatibleAdapter } from './openai-compatible'
+import { togetherAdapter } from './together'
+import type { ProviderAdapter } from './types'
+
+const adapters: Record<string, ProviderAdapter> = {}
+
+/**
+ * Makes an adapter available under its id. `AIProvider.adapter` in the store
+ * refers to these ids.
+ */
+export function registerProviderAdapter(adapter: ProviderAdapter): void {
+  adapters[adapter.id] = adapter
+}
+
+export function getProviderAdapter(id: string): ProviderAdapter | undefined {
+  return adapters[id]
+}
+
+export function listProviderAdapters(): ProviderAdapter[] {
+  return Object.keys(adapters).map(id => adapters[id])
+}
+
+// Built-in adapters
+registerProviderAdapter(togetherAdapter)
+registerProviderAdapter(openAIAdapter)
+registerProviderAdapter(anthropicAdapter)
+registerProviderAdapter(openAICompatibleAdapter)
+registerProviderAdapter(mockAdapter)
@@ -0,0 +1,44 @@
+/**
+ * Reads a server-sent-events body and hands each `data:` payload to `onData`.
+ * Returning `false` from the callback stops reading early.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string) => boolean
+): Promise<void> {
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body reader available')
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (!trimmed.startsWith('data:')) continue
+
+        if (!onData(trimmed.slice(5).trim())) {
+          await reader.cancel()
+          return
+        }
+      }
+    }
+
+    const remaining = buffer.trim()
+    if (remaining.startsWith('data:')) {
+      onData(remaining.slice(5).trim())
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
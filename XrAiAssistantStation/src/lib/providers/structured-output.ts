@@ -0,0 +1,31 @@
+/**
+ * JSON Schema for the `code-files` response format, shared by OpenAI's
+ * json_schema response format and Anthropic's forced tool call. Strict mode
+ * requires every property to be listed and no extras.
+ */
+export const CODE_FILES_SCHEMA_NAME = 'code_files'
+
+export const CODE_FILES_SCHEMA = {
+  type: 'object',
+  properties: {
+    explanation: {
+      type: 'string',
+      description: 'Markdown answer for the user, without the code itself'
+    },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Relative file path, e.g. App.jsx' },
+          language: { type: 'string', description: 'javascript, jsx, typescript, tsx, html or css' },
+          content: { type: 'string', description: 'Complete file contents' }
+        },
+        required: ['path', 'language', 'content'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['explanation', 'files'],
+  additionalProperties: false
+}
@@ -0,0 +1,52 @@
+import {
+  buildChatCompletionsRequest,
+  buildListModelsRequest,
+  parseChatCompletionsChunk,
+  parseChatCompletionsResponse
+} from './openai-chat'
+import type { DiscoveredModel, ProviderAdapter } from './types'
+
+// Together lists every hosted model; only text generation models are useful in chat
+const CHAT_MODEL_TYPES = ['chat', 'language', 'code']
+
+function parseTogetherModelList(data: any): DiscoveredModel[] {
+  const entries: any[] = Array.isArray(data) ? data : data?.data || []
+  return entries
+    .filter(entry => typeof entry?.id === 'string' && CHAT_MODEL_TYPES.includes(entry.type))
+    .map(entry => {
+      const input = entry.pricing?.input
+      const output = entry.pricing?.output
+      return {
+        id: entry.id,
+        name: entry.display_name || entry.id,
+        description: entry.organization ? `${entry.organization} model` : undefined,
+        pricing: typeof input === 'number' && typeof output === 'number'
+          ? (input === 0 && output === 0 ? 'Free' : `$${input.toFixed(2)}/$${output.toFixed(2)} per 1M tokens`)
+          : undefined,
+        cost: typeof input === 'number' && typeof output === 'number'
+          ? { inputPer1M: input, outputPer1M: output }
+          : undefined,
+        contextWindow: entry.context_length || undefined
+      }
+    })
+}
+
+export const togetherAdapter: ProviderAdapter = {
+  id: 'together',
+  name: 'Together AI',
+  defaultBaseUrl: 'https://api.together.xyz/v1',
+  capabilities: {
+    streaming: true,
+    streamUsage: true,
+    optionalApiKey: false,
+    // JSON mode is limited to a few Together models, so replies use named fences instead
+    structuredOutput: false,
+    toolCalling: true,
+    imageInput: true
+  },
+  buildRequest: (params) => buildChatCompletionsRequest(params),
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamChunk: (data) => parseChatCompletionsChunk('Together AI', data),
+  buildListModelsRequest,
+  parseModelList: parseTogetherModelList
+}
@@ -0,0 +1,151 @@
+import type { ConversationTurn, ToolCall } from '../conversation-context'
+
+export interface TokenUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+export interface AIResponse {
+  content: string
+  model: string
+  usage?: TokenUsage
+  toolCalls?: ToolCall[]
+  finishReason?: string
+  // Thinking the provider returned separately from the answer (Anthropic
+  // thinking blocks, `reasoning_content` fields) plus any <think> blocks
+  reasoning?: string
+}
+
+export interface StreamingResponse {
+  content: string
+  done: boolean
+  // Reasoning text from provider fields. <think> tags stay in `content`;
+  // split the accumulated text with splitReasoning
+  reasoning?: string
+  // Only populated on the final chunk
+  usage?: TokenUsage
+  finishReason?: string
+  // Tools the model asked to call, complete with parsed arguments
+  toolCalls?: ToolCall[]
+  // Replayed from the response cache rather than generated
+  cached?: boolean
+}
+
+/**
+ * A function the model may call. `parameters` is a JSON Schema object.
+ */
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean
+  // Reports token usage at the end of a stream
+  streamUsage: boolean
+  // Requests can be sent without an API key
+  optionalApiKey: boolean
+  // Can be forced to answer with the code-files payload (JSON mode or a tool call)
+  structuredOutput: boolean
+  // Accepts tool definitions and returns tool calls
+  toolCalling: boolean
+  // Knows the provider's image content format; the model must also accept images
+  imageInput: boolean
+}
+
+// 'code-files' asks for a CodeFilesPayload instead of free text
+export type ResponseFormat = 'text' | 'code-files'
+
+export interface ProviderRequestParams {
+  baseUrl: string
+  apiKey: string
+  model: string
+  messages: ConversationTurn[]
+  systemPrompt: string
+  temperature: number
+  topP: number
+  maxTokens: number
+  stream: boolean
+  // Only honored by adapters with capabilities.structuredOutput
+  responseFormat?: ResponseFormat
+  // Only sent by adapters with capabilities.toolCalling
+  tools?: ToolDefinition[]
+  // 'none' keeps the tools defined (required once the history has tool turns) but forbids new calls
+  toolChoice?: 'auto' | 'none'
+  // Token budget for extended thinking; only adapters with a thinking option use it
+  thinkingBudget?: number
+}
+
+/**
+ * Body of a POST to the /api/ai/chat proxy. The server supplies the endpoint
+ * and key for `provider` itself.
+ */
+export interface ProxyChatRequest extends Omit<ProviderRequestParams, 'baseUrl' | 'apiKey'> {
+  // AIProvider.id
+  provider: string
+}
+
+export interface ProviderRequest {
+  url: string
+  headers: Record<string, string>
+  body: Record<string, unknown>
+}
+
+export interface DiscoveredModel {
+  id: string
+  name: string
+  description?: string
+  pricing?: string
+  // USD per million tokens
+  cost?: { inputPer1M: number; outputPer1M: number }
+  contextWindow?: number
+}
+
+/**
+ * What a single server-sent event contributed to the stream. Usage may be
+ * partial (Anthropic reports prompt and completion tokens in separate events);
+ * AIService merges the pieces.
+ */
+export interface StreamChunkResult {
+  content?: string
+  reasoning?: string
+  toolCalls?: ToolCallDelta[]
+  usage?: Partial<TokenUsage>
+  finishReason?: string
+  // The provider signalled the end of the stream
+  done?: boolean
+}
+
+/**
+ * A streamed piece of a tool call. `index` identifies the call within the
+ * response; the id and name arrive first and the JSON arguments in fragments.
+ */
+export interface ToolCallDelta {
+  index: number
+  id?: string
+  name?: string
+  argumentsDelta?: string
+}
+
+/**
+ * Translates between AIService's provider-neutral calls and one provider's
+ * wire format. AIService owns the transport (fetch, SSE reading, errors).
+ */
+export interface ProviderAdapter {
+  id: string
+  // Used in error messages
+  name: string
+  defaultBaseUrl: string
+  // Answered by this app's own routes, so proxy mode sends requests straight there
+  servedByApp?: boolean
+  capabilities: ProviderCapabilities
+  buildRequest(params: ProviderRequestParams): ProviderRequest
+  parseResponse(data: any): AIResponse
+  // Receives the payload of one `data:` line; returns null for events to ignore
+  parseStreamChunk(data: string): StreamChunkResult | null
+  // Optional model discovery (GET request against the provider's list-models endpoint)
+  buildListModelsRequest?(baseUrl: string, apiKey: string): Omit<ProviderRequest, 'body'>
+  parseModelList?(data: any): DiscoveredModel[]
+}
@@ -0,0 +1,40 @@
+export interface ReasoningParts {
+  reasoning: string
+  answer: string
+}
+
+const OPEN_TAG_PATTERN = /<think(?:ing)?>/
+const CLOSE_TAG_PATTERN = /<\/think(?:ing)?>/
+// A block left open at the end is still being streamed
+const THINK_BLOCK_PATTERN = /<think(?:ing)?>([\s\S]*?)(?:<\/think(?:ing)?>|$)/g
+
+/**
+ * Separates `<think>` reasoning (DeepSeek R1 and its distills, QwQ, ...)
+ * from the answer. Works on partial streams, and on models whose chat
+ * template opens the block in the prompt so only `</think>` is emitted.
+ */
+export function splitReasoning(text: string): ReasoningParts {
+  const close = CLOSE_TAG_PATTERN.exec(text)
+  const open = OPEN_TAG_PATTERN.exec(text)
+  if (close && (!open || close.index < open.index)) {
+    const rest = splitReasoning(text.slice(close.index + close[0].length))
+    return {
+      reasoning: joinReasoning(text.slice(0, close.index).trim(), rest.reasoning),
+      answer: rest.answer
+    }
+  }
+  if (!open) {
+    return { reasoning: '', answer: text }
+  }
+
+  const blocks: string[] = []
+  const answer = text.replace(THINK_BLOCK_PATTERN, (_match, reasoning: string) => {
+    blocks.push(reasoning.trim())
+    return ''
+  })
+  return { reasoning: joinReasoning(...blocks), answer: answer.replace(/^\s+/, '') }
+}
+
+export function joinReasoning(...parts: Array<string | undefined>): string {
+  return parts.filter(part => part && part.trim()).join('\n\n')
+}
@@ -0,0 +1,125 @@
+import { createObjectStoreRunner } from './indexed-db'
+import type { ProviderRequestParams, TokenUsage } from './providers/types'
+
+/**
+ * A finished streaming reply, stored so the same request can be replayed
+ * without calling the provider again.
+ */
+export interface CachedResponse {
+  // SHA-256 of the request, see getResponseCacheKey
+  key: string
+  provider: string
+  model: string
+  content: string
+  reasoning?: string
+  usage?: TokenUsage
+  finishReason?: string
+  createdAt: number
+  lastUsedAt: number
+  // Approximate stored size in bytes, used for the size limit
+  size: number
+}
+
+export interface ResponseCacheStats {
+  entries: number
+  bytes: number
+}
+
+export const MAX_CACHE_ENTRIES = 200
+export const MAX_CACHE_BYTES = 10 * 1024 * 1024
+
+const withStore = createObjectStoreRunner('xrai-response-cache', 'responses', 'key')
+
+/**
+ * False during server rendering and in browsers without IndexedDB or Web
+ * Crypto (e.g. pages not served over HTTPS or localhost); the cache is then skipped.
+ */
+export function isResponseCacheAvailable(): boolean {
+  return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle
+}
+
+/**
+ * Hashes everything that shapes the reply. The system prompt carries the
+ * library instructions and the playground code, so it is part of the key
+ * alongside the messages.
+ */
+export async function getResponseCacheKey(provider: string, params: ProviderRequestParams): Promise<string> {
+  const request = JSON.stringify({
+    provider,
+    model: params.model,
+    baseUrl: params.baseUrl,
+    systemPrompt: params.systemPrompt,
+    messages: params.messages,
+    temperature: params.temperature,
+    topP: params.topP,
+    maxTokens: params.maxTokens,
+    responseFormat: params.responseFormat,
+    thinkingBudget: params.thinkingBudget
+  })
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(request))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * The cached reply for the key, refreshing its last-used time. Storage
+ * failures count as a miss.
+ */
+export async function getCachedResponse(key: string): Promise<CachedResponse | undefined> {
+  try {
+    const entry = await withStore<CachedResponse | undefined>('readonly', store => store.get(key))
+    if (entry) {
+      await withStore('readwrite', store => store.put({ ...entry, lastUsedAt: Date.now() }))
+    }
+    return entry
+  } catch (error) {
+    console.warn('Response cache read failed:', error)
+    return undefined
+  }
+}
+
+/**
+ * Stores a reply, then evicts the least recently used entries until the
+ * cache is back under MAX_CACHE_ENTRIES and MAX_CACHE_BYTES.
+ */
+export async function putCachedResponse(entry: Omit<CachedResponse, 'createdAt' | 'lastUsedAt' | 'size'>): Promise<void> {
+  const now = Date.now()
+  const size = (entry.content.length + (entry.reasoning?.length || 0)) * 2
+  if (size > MAX_CACHE_BYTES) return
+
+  try {
+    await withStore('readwrite', store => store.put({ ...entry, createdAt: now, lastUsedAt: now, size }))
+    await evictOverflow()
+  } catch (error) {
+    console.warn('Response cache write failed:', error)
+  }
+}
+
+export async function getResponseCacheStats(): Promise<ResponseCacheStats> {
+  if (!isResponseCacheAvailable()) return { entries: 0, bytes: 0 }
+  const entries = await withStore<CachedResponse[]>('readonly', store => store.getAll())
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((total, entry) => total + entry.size, 0)
+  }
+}
+
+export async function clearResponseCache(): Promise<void> {
+  if (!isResponseCacheAvailable()) return
+  await withStore('readwrite', store => store.clear())
+}
+
+async function evictOverflow(): Promise<void> {
+  const entries = await withStore<CachedResponse[]>('readonly', store => store.getAll())
+  entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+
+  let bytes = 0
+  const stale = entries.filter((entry, index) => {
+    bytes += entry.size
+    return index >= MAX_CACHE_ENTRIES || bytes > MAX_CACHE_BYTES
+  })
+  if (stale.length === 0) return
+
+  await withStore('readwrite', store => {
+    stale.forEach(entry => store.delete(entry.key))
+  })
+}
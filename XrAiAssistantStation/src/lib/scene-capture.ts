@@ -0,0 +1,31 @@
+import { canvasToAttachment, ImageAttachment } from './attachments'
+
+// Returns a copy of the preview canvas; registered by the mounted scene preview
+type SceneCapturer = () => Promise<HTMLCanvasElement>
+
+let activeCapturer: SceneCapturer | null = null
+
+/**
+ * Makes the preview's canvas available to captureSceneScreenshot. Returns
+ * the unregister function for effect cleanup.
+ */
+export function registerSceneCapturer(capturer: SceneCapturer): () => void {
+  activeCapturer = capturer
+  return () => {
+    if (activeCapturer === capturer) activeCapturer = null
+  }
+}
+
+/**
+ * Grabs the current frame of the playground preview as an image attachment.
+ * The React Three Fiber preview runs in a cross-origin Sandpack frame and
+ * cannot be captured.
+ */
+export async function captureSceneScreenshot(): Promise<ImageAttachment> {
+  if (!activeCapturer) {
+    throw new Error('Screenshots are only available for the Babylon.js and Three.js preview')
+  }
+  const canvas = await activeCapturer()
+  const time = new Date().toTimeString().slice(0, 8).replace(/:/g, '')
+  return canvasToAttachment(canvas, `scene-${time}.jpg`)
+}
@@ -0,0 +1,201 @@
+import { SceneError, useAppStore } from '@/store/app-store'
+import { applySearchReplace } from './code-patch'
+import type { ToolDefinition } from './providers/types'
+
+export interface ToolOutcome {
+  content: string
+  isError: boolean
+}
+
+// How long run_scene waits for the preview to report an error
+const RUN_SCENE_WAIT_MS = 3000
+
+/**
+ * Tools the assistant can call in agent mode. Each is backed by the app store
+ * and the playground, so edits land in the editor as they happen.
+ */
+export const SCENE_TOOLS: ToolDefinition[] = [
+  {
+    name: 'get_current_code',
+    description: 'Returns the code currently in the playground editor, with line numbers.',
+    parameters: { type: 'object', properties: {}, required: [] }
+  },
+  {
+    name: 'replace_code',
+    description: 'Replaces the whole playground code. Prefer apply_patch for small edits.',
+    parameters: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: 'The complete new code' }
+      },
+      required: ['code']
+    }
+  },
+  {
+    name: 'apply_patch',
+    description: 'Replaces one exact snippet of the current code. The search text must match exactly one place; copy it from get_current_code without line numbers.',
+    parameters: {
+      type: 'object',
+      properties: {
+        search: { type: 'string', description: 'Existing code to replace, including enough lines to be unique' },
+        replace: { type: 'string', description: 'Code to put in its place' }
+      },
+      required: ['search', 'replace']
+    }
+  },
+  {
+    name: 'list_libraries',
+    description: 'Lists the 3D libraries the playground can run and which one is selected.',
+    parameters: { type: 'object', properties: {}, required: [] }
+  },
+  {
+    name: 'switch_library',
+    description: 'Selects another 3D library. The code is not converted; call replace_code afterwards.',
+    parameters: {
+      type: 'object',
+      properties: {
+        library_id: { type: 'string', description: 'Id from list_libraries' }
+      },
+      required: ['library_id']
+    }
+  },
+  {
+    name: 'run_scene',
+    description: 'Runs the current code in the preview and reports any runtime errors.',
+    parameters: { type: 'object', properties: {}, required: [] }
+  },
+  {
+    name: 'get_runtime_errors',
+    description: 'Returns the errors reported by the last scene run.',
+    parameters: { type: 'object', properties: {}, required: [] }
+  }
+]
+
+/**
+ * Runs one tool call. Failures are returned as error outcomes for the model
+ * to read, not thrown.
+ */
+export async function executeSceneTool(
+  name: string,
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<ToolOutcome> {
+  const store = useAppStore.getState()
+
+  switch (name) {
+    case 'get_current_code': {
+      const library = store.getCurrentLibrary()
+      const header = `Library: ${library ? `${library.name} v${library.version}` : 'none'}`
+      if (!store.currentCode.trim()) {
+        return ok(`${header}\nThe editor is empty.`)
+      }
+      const files = store.codeFiles.length > 1
+        ? `\nOther files (read-only here): ${store.codeFiles.filter(f => f.path !== store.codeEntryPath).map(f => f.path).join(', ')}`
+        : ''
+      return ok(`${header}${files}\n\n${withLineNumbers(store.currentCode)}`)
+    }
+
+    case 'replace_code': {
+      if (typeof args.code !== 'string' || !args.code.trim()) {
+        return fail('replace_code needs a non-empty "code" string')
+      }
+      store.setCurrentCode(args.code)
+      return ok(`Code replaced (${args.code.split('\n').length} lines).`)
+    }
+
+    case 'apply_patch': {
+      if (typeof args.search !== 'string' || typeof args.replace !== 'string') {
+        return fail('apply_patch needs "search" and "replace" strings')
+      }
+      const result = applySearchReplace(store.currentCode, args.search, args.replace)
+      if (!result.ok) {
+        return fail(result.error)
+      }
+      store.setCurrentCode(result.code)
+      return ok('Patch applied.')
+    }
+
+    case 'list_libraries':
+      return ok(store.libraries
+        .map(library => `${library.id}: ${library.name} v${library.version}${library.id === store.settings.selectedLibrary ? ' (selected)' : ''}`)
+        .join('\n'))
+
+    case 'switch_library': {
+      const library = store.libraries.find(l => l.id === args.library_id)
+      if (!library) {
+        return fail(`Unknown library "${String(args.library_id)}". Call list_libraries for valid ids.`)
+      }
+      store.updateSettings({ selectedLibrary: library.id })
+      return ok(`Switched to ${library.name} v${library.version}. The existing code was not converted.`)
+    }
+
+    case 'run_scene': {
+      if (!store.currentCode.trim()) {
+        return fail('There is no code to run')
+      }
+      if (store.getCurrentLibrary()?.id === 'react-three-fiber') {
+        store.requestSceneRun()
+        return ok('The Sandpack preview reloaded. Its runtime errors are not reported back, so ask the user to check the preview.')
+      }
+
+      store.clearSceneErrors()
+      store.requestSceneRun()
+      const errors = await waitForSceneErrors(RUN_SCENE_WAIT_MS, signal)
+      return errors.length > 0
+        ? fail(`The scene threw:\n${formatSceneErrors(errors)}`)
+        : ok(`The scene ran for ${RUN_SCENE_WAIT_MS / 1000}s without errors.`)
+    }
+
+    case 'get_runtime_errors':
+      return ok(store.sceneErrors.length > 0
+        ? formatSceneErrors(store.sceneErrors)
+        : 'No runtime errors were reported.')
+
+    default:
+      return fail(`Unknown tool "${name}"`)
+  }
+}
+
+export function formatSceneErrors(errors: SceneError[]): string {
+  return errors
+    .map(error => `${error.line ? `Line ${error.line}${error.column ? `:${error.column}` : ''}: ` : ''}${error.message}`)
+    .join('\n')
+}
+
+// Resolves with the first reported errors, or an empty list after the timeout
+function waitForSceneErrors(timeoutMs: number, signal?: AbortSignal): Promise<SceneError[]> {
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer)
+      unsubscribe()
+      signal?.removeEventListener('abort', onAbort)
+      resolve(useAppStore.getState().sceneErrors)
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      unsubscribe()
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+
+    const timer = setTimeout(finish, timeoutMs)
+    const unsubscribe = useAppStore.subscribe(state => {
+      if (state.sceneErrors.length > 0) finish()
+    })
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function withLineNumbers(code: string): string {
+  return code
+    .split('\n')
+    .map((line, index) => `${String(index + 1).padStart(4)} | ${line}`)
+    .join('\n')
+}
+
+function ok(content: string): ToolOutcome {
+  return { content, isError: false }
+}
+
+function fail(content: string): ToolOutcome {
+  return { content, isError: true }
+}
@@ -0,0 +1,68 @@
+import type { ConversationTurn, ToolCall, ToolResult } from '../conversation-context'
+import type { ProxyChatRequest } from '../providers/types'
+
+/**
+ * Checks a provider-neutral chat request from the browser before any provider
+ * is called. Returns what is wrong, or null when the request is usable.
+ */
+export function validateChatRequest(payload: Omit<ProxyChatRequest, 'provider'>): string | null {
+  if (!payload || typeof payload !== 'object') return 'Missing request body'
+  if (typeof payload.model !== 'string' || payload.model === '') return 'model is required'
+  if (!Array.isArray(payload.messages) || payload.messages.length === 0) return 'messages must be a non-empty array'
+  if (!payload.messages.every(isConversationTurn)) return 'messages must contain user/assistant turns with string content, base64 images and well-formed tool calls and results'
+  if (payload.systemPrompt !== undefined && typeof payload.systemPrompt !== 'string') return 'systemPrompt must be a string'
+  if (typeof payload.temperature !== 'number' || typeof payload.topP !== 'number') return 'temperature and topP must be numbers'
+  if (typeof payload.maxTokens !== 'number' || payload.maxTokens <= 0) return 'maxTokens must be a positive number'
+  if (typeof payload.stream !== 'boolean') return 'stream must be a boolean'
+  if (payload.responseFormat !== undefined && payload.responseFormat !== 'text' && payload.responseFormat !== 'code-files') {
+    return 'responseFormat must be "text" or "code-files"'
+  }
+  if (payload.tools !== undefined && (!Array.isArray(payload.tools) || !payload.tools.every(tool => typeof tool?.name === 'string'))) {
+    return 'tools must be an array of tool definitions'
+  }
+  if (payload.toolChoice !== undefined && payload.toolChoice !== 'auto' && payload.toolChoice !== 'none') {
+    return 'toolChoice must be "auto" or "none"'
+  }
+  if (payload.thinkingBudget !== undefined && (typeof payload.thinkingBudget !== 'number' || payload.thinkingBudget < 0)) {
+    return 'thinkingBudget must be a non-negative number'
+  }
+  return null
+}
+
+function isConversationTurn(turn: ConversationTurn): boolean {
+  return (
+    turn !== null &&
+    typeof turn === 'object' &&
+    (turn.role === 'user' || turn.role === 'assistant') &&
+    typeof turn.content === 'string' &&
+    (turn.images === undefined || (
+      Array.isArray(turn.images) &&
+      turn.images.every(image => typeof image?.mediaType === 'string' && typeof image.data === 'string')
+    )) &&
+    (turn.toolCalls === undefined || (Array.isArray(turn.toolCalls) && turn.toolCalls.every(isToolCall))) &&
+    (turn.toolResults === undefined || (Array.isArray(turn.toolResults) && turn.toolResults.every(isToolResult)))
+  )
+}
+
+function isToolCall(call: ToolCall): boolean {
+  return (
+    call !== null &&
+    typeof call === 'object' &&
+    typeof call.id === 'string' &&
+    typeof call.name === 'string' &&
+    call.arguments !== null &&
+    typeof call.arguments === 'object' &&
+    !Array.isArray(call.arguments)
+  )
+}
+
+function isToolResult(result: ToolResult): boolean {
+  return (
+    result !== null &&
+    typeof result === 'object' &&
+    typeof result.toolCallId === 'string' &&
+    typeof result.name === 'string' &&
+    typeof result.content === 'string' &&
+    (result.isError === undefined || typeof result.isError === 'boolean')
+  )
+}
@@ -0,0 +1,507 @@
+/**
+ * Replies for the offline mock provider (/api/ai/mock): scripted answers,
+ * fixtures recorded from real providers, and the chat-completions wire format
+ * both are streamed in. Only route handlers import this module.
+ */
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { ConversationTurn, estimateTokens, ToolCall, ToolResult } from '../conversation-context'
+import type { MockChatRequest } from '../providers/mock'
+import type { TokenUsage, ToolCallDelta } from '../providers/types'
+
+/**
+ * One streamed piece of a reply and how long after the previous piece it arrived.
+ */
+export interface MockEvent {
+  delayMs: number
+  content?: string
+  reasoning?: string
+  toolCalls?: ToolCallDelta[]
+}
+
+export interface MockReply {
+  events: MockEvent[]
+  finishReason: string
+  usage?: TokenUsage
+  // Sent as an error event after the events instead of finishing the stream
+  streamError?: { type: string; message: string }
+}
+
+/**
+ * A recorded exchange, stored as `<key>.json` in the fixtures directory.
+ */
+export interface MockFixture extends MockReply {
+  version: 1
+  key: string
+  // The user turn the fixture answers, for people browsing the files
+  prompt: string
+  provider: string
+  model: string
+  recordedAt: string
+}
+
+// An HTTP error answered instead of a reply
+export interface MockHttpError {
+  status: number
+  type: string
+  message: string
+  retryAfterSeconds?: number
+}
+
+type ScriptedLibrary = 'babylonjs' | 'threejs' | 'react-three-fiber'
+
+interface ScriptedScene {
+  intro: string
+  path: string
+  language: string
+  code: string
+}
+
+// The tool calls of an agent-mode request since its prompt, with their results
+interface ToolRound {
+  calls: ToolCall[]
+  results: ToolResult[]
+}
+
+const DIRECTIVE_PATTERN = /\bmock:([a-z0-9-]+)/i
+
+// Time to first token, then the gap between chunks, in milliseconds
+const FIRST_CHUNK_DELAY_MS = { min: 350, max: 700 }
+const CHUNK_DELAY_MS = { min: 15, max: 45 }
+const WORDS_PER_CHUNK = 2
+const ARGUMENT_CHARS_PER_CHUNK = 48
+
+// Prompts that already got their one rate limit from `mock:429-once`
+const rateLimitedOnce: Record<string, boolean> = {}
+
+export function isMockHttpError(reply: MockReply | MockHttpError): reply is MockHttpError {
+  return 'status' in reply
+}
+
+/**
+ * Record mode spends the server's provider keys and writes prompts to disk,
+ * so it stays off unless MOCK_RECORD_ENABLED is `true`.
+ */
+export function isMockRecordingEnabled(): boolean {
+  return (process.env.MOCK_RECORD_ENABLED || '').trim().toLowerCase() === 'true'
+}
+
+/**
+ * The provider/model record mode forwards to, from MOCK_RECORD_PROVIDER and
+ * MOCK_RECORD_MODEL. Its key comes from the usual proxy credentials.
+ */
+export function getMockRecordTarget(): { provider: string; model: string } | null {
+  const provider = (process.env.MOCK_RECORD_PROVIDER || '').trim()
+  const model = (process.env.MOCK_RECORD_MODEL || '').trim()
+  return provider && model ? { provider, model } : null
+}
+
+export function lastUserPrompt(messages: ConversationTurn[]): string {
+  const index = lastPromptIndex(messages)
+  return index === -1 ? '' : messages[index].content
+}
+
+/**
+ * Fixtures are matched on the latest user turn and the number of tool rounds
+ * since, so a recording still replays after the playground code or earlier
+ * history changes, and each round of an agent run replays its own reply.
+ */
+export function fixtureKey(messages: ConversationTurn[]): string {
+  const prompt = lastUserPrompt(messages).trim()
+  const rounds = toolRoundsSincePrompt(messages).length
+  return createHash('sha256').update(rounds > 0 ? `${prompt}\n#tool-round-${rounds}` : prompt).digest('hex').slice(0, 16)
+}
+
+export async function readFixture(key: string): Promise<MockFixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(fixturePath(key), 'utf8'))
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+export async function saveFixture(fixture: MockFixture): Promise<void> {
+  await fs.mkdir(fixturesDir(), { recursive: true })
+  await fs.writeFile(fixturePath(fixture.key), `${JSON.stringify(fixture, null, 2)}\n`, 'utf8')
+}
+
+/**
+ * Answers from a `mock:<directive>` in the latest user message:
+ *
+ * - `mock:429` always rate limits (Retry-After: 2); `mock:429-once` only the first attempt
+ * - `mock:500` fails with a server error
+ * - `mock:stream-error` breaks off part-way through the stream
+ * - `mock:length` stops at the token limit
+ * - `mock:think` streams reasoning before the answer
+ * - `mock:broken-code` returns a scene that throws at runtime
+ * - `mock:text` answers without code
+ *
+ * Anything else gets a small scene for the library named in the system prompt,
+ * as the code_files payload when `responseFormat` is `code-files`. Requests
+ * that offer tools get a scripted agent run instead: replace_code with the
+ * scene, run_scene (and for `mock:broken-code` an apply_patch that removes the
+ * fault and another run), one call per round trip, then a short summary.
+ */
+export function scriptedReply(request: MockChatRequest): MockReply | MockHttpError {
+  const prompt = lastUserPrompt(request.messages)
+  const directive = (DIRECTIVE_PATTERN.exec(prompt)?.[1] || '').toLowerCase()
+
+  if (directive === '429' || (directive === '429-once' && !rateLimitedOnce[fixtureKey(request.messages)])) {
+    if (directive === '429-once') rateLimitedOnce[fixtureKey(request.messages)] = true
+    return { status: 429, type: 'rate_limit_error', message: `Mock rate limit (mock:${directive})`, retryAfterSeconds: 2 }
+  }
+  if (directive === '500') {
+    return { status: 500, type: 'server_error', message: 'Mock server error (mock:500)' }
+  }
+
+  const library = detectLibrary(request.systemPrompt)
+  const broken = directive === 'broken-code'
+  const scene = scriptedScene(library, broken)
+  const reasoning = directive === 'think' ? SCRIPTED_REASONING : ''
+  const promptTokens = estimateTokens(request.systemPrompt) + request.messages.reduce((total, turn) => total + estimateTokens(turn.content), 0)
+
+  const rounds = toolRoundsSincePrompt(request.messages)
+  const offered = (request.tools || []).map(tool => tool.name)
+  if (offered.length > 0 && directive !== 'text') {
+    const plan = scriptedToolPlan(library, scene, broken).filter(call => offered.indexOf(call.name) !== -1)
+    const next = request.toolChoice === 'none' ? undefined : plan[rounds.length]
+    if (next) {
+      const call: ToolCall = { ...next, id: `mock-call-${rounds.length + 1}` }
+      return {
+        events: [...toEvents(reasoning, 'reasoning'), ...toToolCallEvents(call)],
+        finishReason: 'tool_calls',
+        usage: toUsage(promptTokens, estimateTokens(reasoning + JSON.stringify(call.arguments)))
+      }
+    }
+  }
+
+  const answer = rounds.length > 0
+    ? scriptedAgentSummary(rounds)
+    : request.responseFormat === 'code-files'
+      ? JSON.stringify(directive === 'text'
+        ? { explanation: SCRIPTED_EXPLANATION, files: [] }
+        : { explanation: scene.intro, files: [{ path: scene.path, language: scene.language, content: scene.code }] })
+      : directive === 'text' ? SCRIPTED_EXPLANATION : sceneMarkdown(scene)
+
+  if (directive === 'length' || directive === 'stream-error') {
+    const partial = answer.slice(0, Math.floor(answer.length / (directive === 'length' ? 2 : 3)))
+    return {
+      events: toEvents(partial),
+      finishReason: 'length',
+      usage: toUsage(promptTokens, estimateTokens(partial)),
+      streamError: directive === 'stream-error'
+        ? { type: 'overloaded_error', message: 'Mock stream interrupted (mock:stream-error)' }
+        : undefined
+    }
+  }
+
+  return {
+    events: [...toEvents(reasoning, 'reasoning'), ...toEvents(answer)],
+    finishReason: 'stop',
+    usage: toUsage(promptTokens, estimateTokens(reasoning + answer))
+  }
+}
+
+/**
+ * A `data:` line in the chat-completions streaming format.
+ */
+export function toMockSse(data: unknown): string {
+  return `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`
+}
+
+export function mockStreamChunk(model: string, event: Partial<MockEvent>, finishReason: string | null = null): Record<string, unknown> {
+  const delta: Record<string, unknown> = {}
+  if (event.content) delta.content = event.content
+  if (event.reasoning) delta.reasoning_content = event.reasoning
+  if (event.toolCalls) {
+    delta.tool_calls = event.toolCalls.map(call => ({
+      index: call.index,
+      ...(call.id ? { id: call.id, type: 'function' } : {}),
+      function: { ...(call.name ? { name: call.name } : {}), arguments: call.argumentsDelta || '' }
+    }))
+  }
+  return { object: 'chat.completion.chunk', model, choices: [{ index: 0, delta, finish_reason: finishReason }] }
+}
+
+/**
+ * The whole reply as a non-streaming chat completion.
+ */
+export function mockCompletion(reply: MockReply, model: string): Record<string, unknown> {
+  const content = reply.events.map(event => event.content || '').join('')
+  const reasoning = reply.events.map(event => event.reasoning || '').join('')
+  const toolCalls = collectToolCalls(reply.events)
+  return {
+    object: 'chat.completion',
+    model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content,
+        ...(reasoning ? { reasoning_content: reasoning } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      },
+      finish_reason: reply.finishReason
+    }],
+    usage: reply.usage
+  }
+}
+
+/**
+ * Streams the reply with its recorded (or scripted) gaps between chunks.
+ * Stops quietly when the client disconnects.
+ */
+export function streamMockReply(reply: MockReply, model: string, signal: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) => controller.enqueue(encoder.encode(toMockSse(data)))
+      try {
+        for (const event of reply.events) {
+          await wait(event.delayMs, signal)
+          send(mockStreamChunk(model, event))
+        }
+        if (reply.streamError) {
+          send({ error: reply.streamError })
+        } else {
+          send({ ...mockStreamChunk(model, {}, reply.finishReason), usage: reply.usage })
+          send('[DONE]')
+        }
+        controller.close()
+      } catch (error) {
+        if (!signal.aborted) controller.error(error)
+      }
+    }
+  })
+}
+
+export function toUsage(promptTokens: number, completionTokens: number): TokenUsage {
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+}
+
+function fixturesDir(): string {
+  return process.env.MOCK_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'mock-provider')
+}
+
+function fixturePath(key: string): string {
+  // Keys are hex digests; anything else never reaches the file system
+  if (!/^[0-9a-f]+$/.test(key)) throw new Error(`Invalid fixture key: ${key}`)
+  return path.join(fixturesDir(), `${key}.json`)
+}
+
+// Tool results travel as user turns too, but are not prompts
+function lastPromptIndex(messages: ConversationTurn[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user' && !messages[i].toolResults?.length) return i
+  }
+  return -1
+}
+
+function toolRoundsSincePrompt(messages: ConversationTurn[]): ToolRound[] {
+  const rounds: ToolRound[] = []
+  messages.slice(lastPromptIndex(messages) + 1).forEach(turn => {
+    if (turn.toolCalls?.length) rounds.push({ calls: turn.toolCalls, results: [] })
+    if (turn.toolResults?.length && rounds.length > 0) rounds[rounds.length - 1].results = turn.toolResults
+  })
+  return rounds
+}
+
+function detectLibrary(systemPrompt: string): ScriptedLibrary {
+  if (/Library: React Three Fiber/i.test(systemPrompt)) return 'react-three-fiber'
+  if (/Library: Three\.js/i.test(systemPrompt)) return 'threejs'
+  return 'babylonjs'
+}
+
+// Splits text into chunks of a few words with jittered delays
+function toEvents(text: string, field: 'content' | 'reasoning' = 'content'): MockEvent[] {
+  const words = text.match(/\S+\s*|\s+/g) || []
+  const events: MockEvent[] = []
+  for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+    events.push({ delayMs: chunkDelay(i === 0), [field]: words.slice(i, i + WORDS_PER_CHUNK).join('') })
+  }
+  return events
+}
+
+// The id and name come first, then the JSON arguments in fragments
+function toToolCallEvents(call: ToolCall): MockEvent[] {
+  const args = JSON.stringify(call.arguments)
+  const events: MockEvent[] = [{ delayMs: chunkDelay(true), toolCalls: [{ index: 0, id: call.id, name: call.name }] }]
+  for (let i = 0; i < args.length; i += ARGUMENT_CHARS_PER_CHUNK) {
+    events.push({ delayMs: chunkDelay(false), toolCalls: [{ index: 0, argumentsDelta: args.slice(i, i + ARGUMENT_CHARS_PER_CHUNK) }] })
+  }
+  return events
+}
+
+function collectToolCalls(events: MockEvent[]): Record<string, unknown>[] {
+  const calls: { id: string; name: string; arguments: string }[] = []
+  events.forEach(event => (event.toolCalls || []).forEach(delta => {
+    const call = calls[delta.index] || (calls[delta.index] = { id: '', name: '', arguments: '' })
+    if (delta.id) call.id = delta.id
+    if (delta.name) call.name = delta.name
+    call.arguments += delta.argumentsDelta || ''
+  }))
+  return calls
+    .filter(Boolean)
+    .map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } }))
+}
+
+function chunkDelay(first: boolean): number {
+  const range = first ? FIRST_CHUNK_DELAY_MS : CHUNK_DELAY_MS
+  return Math.round(range.min + Math.random() * (range.max - range.min))
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Client disconnected'))
+      return
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    function onAbort() {
+      clearTimeout(timer)
+      reject(new Error('Client disconnected'))
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+const SCRIPTED_REASONING = 'The user wants a scene. A single spinning cube under a soft light is the smallest thing that shows the setup works, so I will start there and keep the render loop simple.'
+
+const SCRIPTED_EXPLANATION = [
+  'This is a scripted answer from the mock provider, so nothing was sent to a real model.',
+  '',
+  'A scene needs three things: a **camera** that decides what is visible, at least one **light** so lit materials are not black, and a **render loop** that draws a new frame whenever something changes.',
+  '',
+  'Add `mock:429`, `mock:500`, `mock:stream-error`, `mock:length`, `mock:think` or `mock:broken-code` to a message to script other replies.'
+].join('\n')
+
+// A misspelled identifier that only fails once the scene runs
+const SCENE_FAULTS: Record<ScriptedLibrary, string> = {
+  'react-three-fiber': '    meshRef.current.rotation.z += speeed',
+  threejs: '  cube.rotation.z += speeed;',
+  babylonjs: '    cube.rotation.z += speeed;'
+}
+
+function scriptedToolPlan(library: ScriptedLibrary, scene: ScriptedScene, broken: boolean): Omit<ToolCall, 'id'>[] {
+  const run = { name: 'run_scene', arguments: {} }
+  return [
+    { name: 'replace_code', arguments: { code: scene.code } },
+    run,
+    ...(broken ? [{ name: 'apply_patch', arguments: { search: `${SCENE_FAULTS[library]}\n`, replace: '' } }, run] : [])
+  ]
+}
+
+function scriptedAgentSummary(rounds: ToolRound[]): string {
+  const calls = rounds.reduce<ToolCall[]>((all, round) => all.concat(round.calls), [])
+  const lastResults = rounds[rounds.length - 1].results
+  const lastError = lastResults.filter(result => result.isError).pop()
+  return [
+    `This is a scripted agent run from the mock provider. It called ${calls.map(call => `\`${call.name}\``).join(', ')}.`,
+    ...(lastError ? ['', `The last \`${lastError.name}\` call failed: ${lastError.content}`] : [])
+  ].join('\n')
+}
+
+function sceneMarkdown(scene: ScriptedScene): string {
+  return `${scene.intro}\n\n\`\`\`${scene.language}\n${scene.code}\n\`\`\``
+}
+
+function scriptedScene(library: ScriptedLibrary, broken: boolean): ScriptedScene {
+  const fault = broken ? [SCENE_FAULTS[library]] : []
+
+  if (library === 'react-three-fiber') {
+    return toScene('Here is a scripted scene from the mock provider: a spinning cube with orbit controls.', 'App.jsx', 'jsx', [
+      "import React, { useRef } from 'react'",
+      "import { Canvas, useFrame } from '@react-three/fiber'",
+      "import { OrbitControls } from '@react-three/drei'",
+      '',
+      'function SpinningCube() {',
+      '  const meshRef = useRef()',
+      '  useFrame((state, delta) => {',
+      '    meshRef.current.rotation.y += delta',
+      ...fault,
+      '  })',
+      '  return (',
+      '    <mesh ref={meshRef}>',
+      '      <boxGeometry args={[1, 1, 1]} />',
+      '      <meshStandardMaterial color="#4f8cff" />',
+      '    </mesh>',
+      '  )',
+      '}',
+      '',
+      'export default function App() {',
+      '  return (',
+      '    <Canvas camera={{ position: [0, 0, 3] }}>',
+      '      <ambientLight intensity={0.5} />',
+      '      <directionalLight position={[2, 2, 2]} />',
+      '      <SpinningCube />',
+      '      <OrbitControls />',
+      '    </Canvas>',
+      '  )',
+      '}'
+    ])
+  }
+
+  if (library === 'threejs') {
+    return toScene('Here is a scripted scene from the mock provider: a spinning cube under a directional light.', 'scene.js', 'javascript', [
+      'const scene = new THREE.Scene();',
+      'const camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);',
+      'const renderer = new THREE.WebGLRenderer({ antialias: true });',
+      'renderer.setSize(window.innerWidth, window.innerHeight);',
+      'document.body.appendChild(renderer.domElement);',
+      '',
+      'scene.add(new THREE.AmbientLight(0x404040, 0.6));',
+      'const light = new THREE.DirectionalLight(0xffffff, 0.8);',
+      'light.position.set(1, 1, 1);',
+      'scene.add(light);',
+      '',
+      'const cube = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshStandardMaterial({ color: 0x4f8cff }));',
+      'scene.add(cube);',
+      'camera.position.z = 3;',
+      '',
+      'function animate() {',
+      '  requestAnimationFrame(animate);',
+      '  cube.rotation.y += 0.01;',
+      ...fault,
+      '  renderer.render(scene, camera);',
+      '}',
+      'animate();'
+    ])
+  }
+
+  return toScene('Here is a scripted scene from the mock provider: a spinning box you can orbit.', 'scene.js', 'javascript', [
+    "const canvas = document.getElementById('renderCanvas');",
+    'const engine = new BABYLON.Engine(canvas, true);',
+    '',
+    'const createScene = () => {',
+    '  const scene = new BABYLON.Scene(engine);',
+    '  const camera = new BABYLON.ArcRotateCamera("camera", -Math.PI / 2, Math.PI / 2.5, 4, BABYLON.Vector3.Zero(), scene);',
+    '  camera.attachControl(canvas, true);',
+    '  new BABYLON.HemisphericLight("light", new BABYLON.Vector3(0, 1, 0), scene);',
+    '',
+    '  const cube = BABYLON.MeshBuilder.CreateBox("cube", { size: 1 }, scene);',
+    '  const material = new BABYLON.StandardMaterial("material", scene);',
+    '  material.diffuseColor = BABYLON.Color3.FromHexString("#4f8cff");',
+    '  cube.material = material;',
+    '',
+    '  scene.onBeforeRenderObservable.add(() => {',
+    '    cube.rotation.y += 0.01;',
+    ...fault,
+    '  });',
+    '  return scene;',
+    '};',
+    '',
+    'const scene = createScene();',
+    'engine.runRenderLoop(() => scene.render());',
+    "window.addEventListener('resize', () => engine.resize());"
+  ])
+}
+
+function toScene(intro: string, filePath: string, language: string, lines: string[]): ScriptedScene {
+  return { intro, path: filePath, language, code: lines.join('\n') }
+}
@@ -0,0 +1,83 @@
+/**
+ * Server-side provider credentials for proxy mode. Only route handlers import
+ * this module; keys are read from the server environment and never reach the
+ * browser.
+ */
+
+interface ServerProviderEntry {
+  // Registered adapter id used to build the upstream request
+  adapter: string
+  apiKeyEnv: string
+  // Providers with a configurable endpoint read it from the environment,
+  // never from the client, so the proxy cannot be pointed at arbitrary hosts
+  baseUrlEnv?: string
+}
+
+export interface ServerProviderConfig {
+  adapter: string
+  // Undefined means the adapter's default endpoint
+  baseUrl?: string
+  apiKey: string
+}
+
+export interface ServerProviderStatus {
+  id: string
+  configured: boolean
+  apiKeyEnv: string
+  baseUrlEnv?: string
+}
+
+// What GET /api/ai/providers reports
+export interface ServerProxyStatus {
+  // PROXY_ACCESS_TOKEN is set; without it the proxy refuses every request
+  enabled: boolean
+  providers: ServerProviderStatus[]
+}
+
+// Keyed by AIProvider.id from the store
+const SERVER_PROVIDERS: Record<string, ServerProviderEntry> = {
+  together: { adapter: 'together', apiKeyEnv: 'TOGETHER_API_KEY' },
+  openai: { adapter: 'openai', apiKeyEnv: 'OPENAI_API_KEY' },
+  anthropic: { adapter: 'anthropic', apiKeyEnv: 'ANTHROPIC_API_KEY' },
+  custom: { adapter: 'openai-compatible', apiKeyEnv: 'CUSTOM_OPENAI_API_KEY', baseUrlEnv: 'CUSTOM_OPENAI_BASE_URL' }
+}
+
+/**
+ * Adapter, endpoint and key for a provider, or null when the server has not
+ * been configured for it.
+ */
+export function getServerProviderConfig(providerId: string): ServerProviderConfig | null {
+  const entry = SERVER_PROVIDERS[providerId]
+  if (!entry || !isConfigured(entry)) return null
+
+  return {
+    adapter: entry.adapter,
+    baseUrl: entry.baseUrlEnv ? readEnv(entry.baseUrlEnv) : undefined,
+    apiKey: readEnv(entry.apiKeyEnv)
+  }
+}
+
+/**
+ * Which providers the proxy can serve, for the settings panel. Exposes the
+ * variable names, not their values.
+ */
+export function listServerProviders(): ServerProviderStatus[] {
+  return Object.keys(SERVER_PROVIDERS).map(id => {
+    const entry = SERVER_PROVIDERS[id]
+    return {
+      id,
+      configured: isConfigured(entry),
+      apiKeyEnv: entry.apiKeyEnv,
+      baseUrlEnv: entry.baseUrlEnv
+    }
+  })
+}
+
+// Self-hosted endpoints are configured by their URL alone; hosted APIs need a key
+function isConfigured(entry: ServerProviderEntry): boolean {
+  return entry.baseUrlEnv ? readEnv(entry.baseUrlEnv) !== '' : readEnv(entry.apiKeyEnv) !== ''
+}
+
+function readEnv(name: string): string {
+  return (process.env[name] || '').trim()
+}
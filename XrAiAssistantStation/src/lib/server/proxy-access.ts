@@ -0,0 +1,67 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { jsonError } from './proxy-response'
+
+/**
+ * Access control for the routes that spend the server's provider keys. Only
+ * this app's own pages may call them, with the shared token from
+ * PROXY_ACCESS_TOKEN; while that variable is unset the proxy stays closed.
+ */
+
+export const PROXY_TOKEN_HEADER = 'x-station-token'
+
+/**
+ * An error response when the request may not use the server's keys, else null.
+ */
+export function checkProxyAccess(request: Request): Response | null {
+  const crossOrigin = checkSameOrigin(request)
+  if (crossOrigin) return crossOrigin
+
+  const expected = readAccessToken()
+  if (!expected) {
+    return jsonError(503, 'The proxy is disabled. Set PROXY_ACCESS_TOKEN on the server to enable it.')
+  }
+  if (!tokensMatch(request.headers.get(PROXY_TOKEN_HEADER) || '', expected)) {
+    return jsonError(401, 'Missing or wrong proxy access token. Enter the token from the server in Settings → Connection.')
+  }
+  return null
+}
+
+export function isProxyEnabled(): boolean {
+  return readAccessToken() !== ''
+}
+
+/**
+ * Refuses requests made by pages on other origins. Browsers mark those with
+ * Sec-Fetch-Site and Origin; clients that send neither still need the token.
+ */
+export function checkSameOrigin(request: Request): Response | null {
+  const site = request.headers.get('sec-fetch-site')
+  if (site && site !== 'same-origin' && site !== 'none') {
+    return jsonError(403, 'Requests from other sites are not allowed')
+  }
+
+  const origin = request.headers.get('origin')
+  if (origin) {
+    const host = request.headers.get('x-forwarded-host') || request.headers.get('host')
+    let originHost: string | null = null
+    try {
+      originHost = new URL(origin).host
+    } catch (error) {
+      // An unparsable Origin is treated as foreign
+    }
+    if (!host || originHost !== host) {
+      return jsonError(403, 'Requests from other sites are not allowed')
+    }
+  }
+  return null
+}
+
+function readAccessToken(): string {
+  return (process.env.PROXY_ACCESS_TOKEN || '').trim()
+}
+
+// Hashing first gives equal lengths, which timingSafeEqual requires
+function tokensMatch(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(given), digest(expected))
+}
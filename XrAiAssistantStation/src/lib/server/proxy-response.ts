@@ -0,0 +1,32 @@
+// Upstream headers the client needs for retry decisions
+const FORWARDED_HEADERS = ['retry-after', 'retry-after-ms']
+
+/**
+ * Error body in the `{ error: { message } }` shape that createProviderError
+ * already understands on the client.
+ */
+export function jsonError(status: number, message: string): Response {
+  return Response.json({ error: { message } }, { status })
+}
+
+/**
+ * Streams an upstream provider response back unchanged so the client-side
+ * adapter can parse it exactly as in direct mode. Error statuses pass through
+ * as-is, keeping rate-limit and auth failures typed on the client.
+ */
+export function forwardUpstream(upstream: Response): Response {
+  const headers = new Headers({
+    'Content-Type': upstream.headers.get('content-type') || 'application/json',
+    'Cache-Control': 'no-cache, no-transform'
+  })
+  for (const name of FORWARDED_HEADERS) {
+    const value = upstream.headers.get(name)
+    if (value) headers.set(name, value)
+  }
+
+  return new Response(upstream.body, { status: upstream.status, headers })
+}
+
+export function describeFetchError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
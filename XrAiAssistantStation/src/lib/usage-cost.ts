@@ -0,0 +1,72 @@
+import type { AppSettings, ChatMessage, ModelCost, SpendEntry } from '@/store/app-store'
+import type { TokenUsage } from './ai-service'
+
+export interface UsageTotals {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  // USD; only messages with known pricing contribute
+  cost: number
+}
+
+export interface SpendLimitStatus {
+  period: 'daily' | 'monthly'
+  spent: number
+  limit: number
+}
+
+/**
+ * USD cost of one response, or undefined when the model's pricing is unknown.
+ */
+export function calculateCost(usage: TokenUsage | undefined, cost: ModelCost | undefined): number | undefined {
+  if (!usage || !cost) return undefined
+  return (usage.prompt_tokens * cost.inputPer1M + usage.completion_tokens * cost.outputPer1M) / 1000000
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00'
+  // Single responses are often fractions of a cent
+  if (usd < 0.01) return `$${usd.toFixed(4)}`
+  return `$${usd.toFixed(2)}`
+}
+
+export function summarizeUsage(messages: ChatMessage[]): UsageTotals {
+  return messages.reduce<UsageTotals>((totals, message) => {
+    if (!message.usage) return totals
+    return {
+      promptTokens: totals.promptTokens + message.usage.prompt_tokens,
+      completionTokens: totals.completionTokens + message.usage.completion_tokens,
+      totalTokens: totals.totalTokens + message.usage.total_tokens,
+      cost: totals.cost + (message.cost || 0)
+    }
+  }, { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 })
+}
+
+export function getSpend(log: SpendEntry[], period: 'daily' | 'monthly', now = new Date()): number {
+  const start = period === 'daily'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+    : new Date(now.getFullYear(), now.getMonth(), 1).getTime()
+
+  return log
+    .filter(entry => entry.timestamp >= start)
+    .reduce((sum, entry) => sum + entry.cost, 0)
+}
+
+/**
+ * The first cap that has been reached, or null when requests may proceed.
+ */
+export function getExceededSpendLimit(settings: AppSettings, log: SpendEntry[]): SpendLimitStatus | null {
+  const checks: Array<{ period: 'daily' | 'monthly'; limit: number | null }> = [
+    { period: 'daily', limit: settings.dailySpendLimit },
+    { period: 'monthly', limit: settings.monthlySpendLimit }
+  ]
+
+  for (const { period, limit } of checks) {
+    if (limit === null || limit === undefined) continue
+    const spent = getSpend(log, period)
+    if (spent >= limit) {
+      return { period, spent, limit }
+    }
+  }
+  return null
+}
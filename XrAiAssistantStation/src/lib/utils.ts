@@ -23,30 +23,6 @@ export function formatTimestamp(timestamp: number): string {
   return date.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' })
 }
 
-export function extractCodeFromMessage(content: string): string | null {
-  // Look for code blocks with various languages (TRIPLE backticks only)
-  // This regex is strict: matches ```language\ncode\n``` pattern
-  const codeBlockRegex = /```(?:javascript|js|typescript|ts|jsx|tsx|html|css)?\s*\n([\s\S]*?)\n\s*```/g
-  const match = codeBlockRegex.exec(content)
-  
-  if (match) {
-    return match[1].trim()
-  }
-  
-  // Fallback: try without language specifier but still require triple backticks
-  const genericCodeBlockRegex = /```\s*\n([\s\S]*?)\n\s*```/g
-  const genericMatch = genericCodeBlockRegex.exec(content)
-  
-  if (genericMatch) {
-    return genericMatch[1].trim()
-  }
-  
-  // DO NOT extract inline code (single backticks) for Monaco editor
-  // Inline code like `const x = 5` is for display only, not execution
-  
-  return null
-}
-
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9)
 }
@@ -111,8 +87,8 @@ export function copyToClipboard(text: string): Promise<boolean> {
   }
 }
 
-export function downloadTextFile(content: string, filename: string): void {
-  const blob = new Blob([content], { type: 'text/plain' })
+export function downloadTextFile(content: string, filename: string, mimeType = 'text/plain'): void {
+  const blob = new Blob([content], { type: mimeType })
   const url = URL.createObjectURL(blob)
   const link = document.createElement('a')
   link.href = url
@@ -1,5 +1,12 @@
 import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
+import { createJSONStorage, persist, StateStorage } from 'zustand/middleware'
+import toast from 'react-hot-toast'
+import type { ConnectionMode, TokenUsage } from '@/lib/ai-service'
+import type { AgentToolStep } from '@/lib/agent-loop'
+import type { ImageAttachment } from '@/lib/attachments'
+import type { CodeFile } from '@/lib/code-files'
+import type { EditHunk } from '@/lib/code-patch'
+import type { PromptIntent, PromptTemplate } from '@/lib/prompt-templates'
 
 export type ViewType = 'chat' | 'playground'
 
@@ -13,16 +20,84 @@ export interface Library3D {
   codeTemplate: string
 }
 
+// USD per million tokens
+export interface ModelCost {
+  inputPer1M: number
+  outputPer1M: number
+}
+
+export interface AIModel {
+  id: string
+  name: string
+  description: string
+  // Display label; cost calculations use `cost`
+  pricing: string
+  cost?: ModelCost
+  // Maximum prompt + completion tokens; older chat turns are trimmed to fit
+  contextWindow?: number
+  // Curated models ship with the app; discovered ones come from the provider's model list
+  source?: 'curated' | 'discovered'
+  // Accepts image input; guessed from the id when unset (discovered models)
+  vision?: boolean
+}
+
 export interface AIProvider {
   id: string
   name: string
+  // Id of the registered ProviderAdapter that speaks this provider's API
+  adapter: string
   baseUrl: string
-  models: Array<{
-    id: string
-    name: string
-    description: string
-    pricing: string
-  }>
+  models: AIModel[]
+}
+
+// A provider/model pair, as picked for compare mode
+export interface ModelTarget {
+  provider: string
+  model: string
+}
+
+/**
+ * Marks one of the replies a compare-mode round produced for the same prompt.
+ */
+export interface ComparisonInfo {
+  // Shared by every reply of the round
+  groupId: string
+  // The reply picked to continue with; the others stay visible but leave the conversation
+  chosen?: boolean
+  // Milliseconds from sending to the first streamed text and to the finished reply
+  firstTokenMs?: number
+  totalMs?: number
+}
+
+// The playground's code, as saved with branches and conversation exports
+export interface PlaygroundSnapshot {
+  code: string
+  codeFiles: CodeFile[]
+  codeEntryPath: string | null
+}
+
+/**
+ * One version of a message together with the replies that followed it. The
+ * version on screen lives in the conversation itself, so its slot is only
+ * filled in when the user switches away from it. The playground is saved
+ * when the branch is left and restored on switching back.
+ */
+export interface MessageBranch extends PlaygroundSnapshot {
+  messages: ChatMessage[]
+}
+
+// Alternatives for a message, created by editing or regenerating it
+export interface MessageVersions {
+  active: number
+  branches: MessageBranch[]
+}
+
+export interface SpendEntry {
+  timestamp: number
+  // USD
+  cost: number
+  provider: string
+  model: string
 }
 
 export interface ChatMessage {
@@ -32,6 +107,82 @@ export interface ChatMessage {
   timestamp: number
   library?: string
   hasCode?: boolean
+  usage?: TokenUsage
+  // USD, when the model's pricing is known
+  cost?: number
+  // Provider/model that produced an assistant message
+  provider?: string
+  model?: string
+  // Images sent with a user message
+  attachments?: ImageAttachment[]
+  // What the classifier read the user message as; picks its prompt template
+  intent?: PromptIntent
+  // Error bubbles are shown in the chat but never sent back to the model
+  isError?: boolean
+  // Set when the user stopped the generation before it finished
+  interrupted?: boolean
+  // Replayed from the response cache instead of calling the provider
+  cached?: boolean
+  // Model thinking, kept out of `content` and never sent back to the model
+  reasoning?: string
+  // Code files parsed from an assistant reply
+  files?: CodeFile[]
+  // Tools the assistant called while producing this reply (agent mode)
+  toolSteps?: AgentToolStep[]
+  // Set on messages written by the auto-fix loop for a scene error
+  autoFix?: { attempt: number; maxAttempts: number }
+  comparison?: ComparisonInfo
+  // Set on thread replies: the top-level assistant message the thread hangs off
+  threadParentId?: string
+  // Only on the version currently shown
+  versions?: MessageVersions
+}
+
+/**
+ * A saved chat, after the iOS app's Conversation. `messages` in the store is
+ * the working copy of the active one and is written back on every change.
+ */
+export interface Conversation {
+  id: string
+  title: string
+  messages: ChatMessage[]
+  createdAt: number
+  updatedAt: number
+  // Library and model of the latest prompt, restored when switching back
+  library3DID?: string
+  modelUsed?: string
+  // AIProvider.id for modelUsed; model ids are only unique within a provider
+  providerUsed?: string
+}
+
+// A runtime error reported by the scene preview
+export interface SceneError {
+  message: string
+  line?: number
+  column?: number
+  stack?: string
+  timestamp: number
+}
+
+export type HunkDecision = 'pending' | 'accepted' | 'rejected'
+
+/**
+ * AI-proposed changes to the entry file, waiting for review in the playground.
+ */
+export interface PendingCodeEdit {
+  // 'patch' came as SEARCH/REPLACE blocks or a diff; 'replacement' is a whole
+  // file, split into hunks by diffing it against the editor
+  source: 'patch' | 'replacement'
+  messageId?: string
+  // Editor contents the hunks were placed against
+  baseCode: string
+  hunks: EditHunk[]
+  decisions: Record<string, HunkDecision>
+  // File set loaded with a multi-file replacement; its entry gets the reviewed code
+  files?: CodeFile[]
+  entryPath?: string
+  // Whole file from the same reply, offered when patch hunks do not apply
+  fallbackCode?: string
 }
 
 export interface AppSettings {
@@ -42,7 +193,32 @@ export interface AppSettings {
   temperature: number
   topP: number
   systemPrompt: string
+  // Edited shipped templates and library-specific ones; see getPromptTemplates
+  promptTemplates: PromptTemplate[]
   theme: 'light' | 'dark' | 'system'
+  // How AI requests reach providers; see ConnectionMode
+  connectionMode: ConnectionMode
+  // Sent to the server proxy, which refuses requests without it
+  proxyAccessToken: string
+  // Ask providers that support it for a JSON files payload instead of Markdown
+  structuredOutput: boolean
+  // Let the assistant edit and run the scene through tools
+  agentMode: boolean
+  // Tool rounds per reply before the assistant must answer
+  maxAgentSteps: number
+  // Extended thinking budget in tokens for providers that offer it; 0 turns it off
+  thinkingBudget: number
+  // Send each prompt to several models side by side
+  compareMode: boolean
+  compareTargets: ModelTarget[]
+  // Send scene runtime errors back to the model and apply its fix
+  autoFix: boolean
+  maxAutoFixAttempts: number
+  // Replay identical requests from the local response cache
+  responseCache: boolean
+  // Optional USD caps; requests are blocked once reached (null = no cap)
+  dailySpendLimit: number | null
+  monthlySpendLimit: number | null
 }
 
 interface AppState {
@@ -50,16 +226,69 @@ interface AppState {
   currentView: ViewType
   setCurrentView: (view: ViewType) => void
   
-  // Chat state
+  // Chat state. `messages` belongs to the active conversation
   messages: ChatMessage[]
   isLoading: boolean
-  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => void
+  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => string
+  updateMessage: (id: string, updates: Partial<Omit<ChatMessage, 'id'>>) => void
+  removeMessage: (id: string) => void
   setLoading: (loading: boolean) => void
   clearMessages: () => void
+  // Keeps the picked compare-mode reply in the conversation and continues with its model
+  chooseComparisonReply: (messageId: string) => void
+  // Puts a new version of a message in its place, keeping the old one and
+  // everything after it as a branch; returns the new message's id
+  startBranch: (messageId: string, message: Omit<ChatMessage, 'id' | 'timestamp'>) => string
+  // Shows another version of a message with its replies and playground code
+  switchBranch: (messageId: string, index: number) => void
+
+  // Saved conversations, most recently created first; null until the first message
+  conversations: Conversation[]
+  activeConversationId: string | null
+  // Starts an empty conversation (or stays on the active one if it is still empty)
+  createConversation: () => string
+  switchConversation: (id: string) => void
+  renameConversation: (id: string, title: string) => void
+  deleteConversation: (id: string) => void
+  // Adds an exported conversation as a new one and opens it with its playground code
+  importConversation: (conversation: Conversation, project: PlaygroundSnapshot) => void
+  // Message the chat should scroll to and highlight, e.g. from search (not persisted)
+  focusedMessageId: string | null
+  focusMessage: (conversationId: string, messageId: string) => void
+  clearFocusedMessage: () => void
+  // Fills in attachment image data loaded from IndexedDB, by attachment id
+  restoreAttachmentData: (images: Record<string, string>) => void
   
-  // Code state
+  // Spend tracking (kept separately from messages so clearing the chat keeps the totals)
+  spendLog: SpendEntry[]
+  recordSpend: (entry: SpendEntry) => void
+  
+  // Code state. currentCode is the entry file the renderer runs; codeFiles holds
+  // the whole set when a reply had several files (empty for single-file code)
   currentCode: string
   setCurrentCode: (code: string) => void
+  codeFiles: CodeFile[]
+  codeEntryPath: string | null
+  setCodeFiles: (files: CodeFile[], entryPath?: string) => void
+  updateCodeFile: (path: string, content: string) => void
+
+  // Code review (not persisted)
+  pendingEdit: PendingCodeEdit | null
+  proposeCodeEdit: (edit: Omit<PendingCodeEdit, 'decisions'>) => void
+  setHunkDecision: (id: string, decision: HunkDecision) => void
+  setAllHunkDecisions: (decision: HunkDecision) => void
+  clearPendingEdit: () => void
+
+  // Scene runtime state (not persisted). Bumping sceneRunRequest asks the
+  // playground to run the current code, even while the chat is showing.
+  sceneErrors: SceneError[]
+  reportSceneError: (error: Omit<SceneError, 'timestamp'>) => void
+  clearSceneErrors: () => void
+  sceneRunRequest: number
+  requestSceneRun: () => void
+  // The auto-fix request in flight, so the chat's Stop button can cancel it
+  autoFixController: AbortController | null
+  setAutoFixController: (controller: AbortController | null) => void
   
   // Settings state
   settings: AppSettings
@@ -73,6 +302,7 @@ interface AppState {
   // AI Provider state
   providers: AIProvider[]
   setProviders: (providers: AIProvider[]) => void
+  updateProvider: (id: string, updates: Partial<Omit<AIProvider, 'id'>>) => void
   getCurrentProvider: () => AIProvider | undefined
   getCurrentModel: () => AIProvider['models'][0] | undefined
 }
@@ -333,93 +563,156 @@ export default function App() {
   }
 ]
 
-// Default AI providers
+// Default AI providers; their model lists are the curated catalog merged with live discovery
 const defaultProviders: AIProvider[] = [
   {
     id: 'together',
     name: 'Together AI',
+    adapter: 'together',
     baseUrl: 'https://api.together.xyz/v1',
     models: [
       {
         id: 'deepseek-ai/DeepSeek-R1-Distill-Llama-70B-free',
         name: 'DeepSeek R1 70B',
         description: 'Advanced reasoning model (FREE)',
-        pricing: 'Free'
+        pricing: 'Free',
+        cost: { inputPer1M: 0, outputPer1M: 0 },
+        contextWindow: 8192
       },
       {
         id: 'meta-llama/Llama-3.3-70B-Instruct-Turbo',
         name: 'Llama 3.3 70B',
         description: 'Latest Meta large model (FREE)',
-        pricing: 'Free'
+        pricing: 'Free',
+        cost: { inputPer1M: 0, outputPer1M: 0 },
+        contextWindow: 131072
       },
       {
         id: 'meta-llama/Llama-3-8B-Instruct-Lite',
         name: 'Llama 3 8B Lite',
         description: 'Fast and efficient model',
-        pricing: '$0.10/1M tokens'
+        pricing: '$0.10/1M tokens',
+        cost: { inputPer1M: 0.1, outputPer1M: 0.1 },
+        contextWindow: 8192
       },
       {
         id: 'Qwen/Qwen2.5-7B-Instruct-Turbo',
         name: 'Qwen 2.5 7B Turbo',
         description: 'Fast coding specialist',
-        pricing: '$0.30/1M tokens'
+        pricing: '$0.30/1M tokens',
+        cost: { inputPer1M: 0.3, outputPer1M: 0.3 },
+        contextWindow: 32768
       },
       {
         id: 'Qwen/Qwen2.5-Coder-32B-Instruct',
         name: 'Qwen 2.5 Coder 32B',
         description: 'Advanced coding & XR specialist',
-        pricing: '$0.80/1M tokens'
+        pricing: '$0.80/1M tokens',
+        cost: { inputPer1M: 0.8, outputPer1M: 0.8 },
+        contextWindow: 32768
       }
     ]
   },
   {
     id: 'openai',
     name: 'OpenAI',
+    adapter: 'openai',
     baseUrl: 'https://api.openai.com/v1',
     models: [
       {
         id: 'gpt-4o',
         name: 'GPT-4o',
         description: 'Most capable multimodal model',
-        pricing: '$5.00/1M tokens'
+        pricing: '$2.50/$10.00 per 1M tokens',
+        cost: { inputPer1M: 2.5, outputPer1M: 10 },
+        contextWindow: 128000,
+        vision: true
       },
       {
         id: 'gpt-4o-mini',
         name: 'GPT-4o Mini',
         description: 'Fast and affordable model',
-        pricing: '$0.15/1M tokens'
+        pricing: '$0.15/$0.60 per 1M tokens',
+        cost: { inputPer1M: 0.15, outputPer1M: 0.6 },
+        contextWindow: 128000,
+        vision: true
       }
     ]
   },
   {
     id: 'anthropic',
     name: 'Anthropic',
+    adapter: 'anthropic',
     baseUrl: 'https://api.anthropic.com',
     models: [
       {
-        id: 'claude-3-5-sonnet-20241022',
-        name: 'Claude 3.5 Sonnet',
-        description: 'Most capable model for complex tasks',
-        pricing: '$3.00/1M tokens'
+        id: 'claude-sonnet-4-5-20250929',
+        name: 'Claude Sonnet 4.5',
+        description: 'Best balance of coding skill and speed',
+        pricing: '$3.00/$15.00 per 1M tokens',
+        cost: { inputPer1M: 3, outputPer1M: 15 },
+        contextWindow: 200000,
+        vision: true
       },
       {
-        id: 'claude-3-haiku-20240307',
-        name: 'Claude 3 Haiku',
+        id: 'claude-haiku-4-5-20251001',
+        name: 'Claude Haiku 4.5',
         description: 'Fast and affordable model',
-        pricing: '$0.25/1M tokens'
+        pricing: '$1.00/$5.00 per 1M tokens',
+        cost: { inputPer1M: 1, outputPer1M: 5 },
+        contextWindow: 200000,
+        vision: true
+      },
+      {
+        id: 'claude-opus-4-1-20250805',
+        name: 'Claude Opus 4.1',
+        description: 'Most capable model for complex scenes',
+        pricing: '$15.00/$75.00 per 1M tokens',
+        cost: { inputPer1M: 15, outputPer1M: 75 },
+        contextWindow: 200000,
+        vision: true
       }
     ]
   },
   {
-    id: 'codesandbox',
-    name: 'CodeSandbox',
-    baseUrl: 'https://codesandbox.io/api/v1',
+    id: 'custom',
+    name: 'Custom (OpenAI-compatible)',
+    adapter: 'openai-compatible',
+    baseUrl: 'http://localhost:11434/v1',
+    // Filled in from GET {baseUrl}/models in settings
+    models: []
+  },
+  {
+    id: 'mock',
+    name: 'Mock (offline)',
+    adapter: 'mock',
+    baseUrl: '/api/ai/mock',
     models: [
       {
-        id: 'sandbox-deployment',
-        name: 'Sandbox Deployment',
-        description: 'Deploy React Three Fiber scenes to CodeSandbox',
-        pricing: 'Free (with optional API key for advanced features)'
+        id: 'scripted',
+        name: 'Scripted responses',
+        description: 'Canned scenes; add mock:429, mock:500, mock:stream-error, mock:think or mock:broken-code to a message to script failures',
+        pricing: 'Free',
+        cost: { inputPer1M: 0, outputPer1M: 0 },
+        contextWindow: 131072,
+        vision: true
+      },
+      {
+        id: 'replay',
+        name: 'Replay fixtures',
+        description: 'Streams recorded replies back with their original timing',
+        pricing: 'Free',
+        cost: { inputPer1M: 0, outputPer1M: 0 },
+        contextWindow: 131072,
+        vision: true
+      },
+      {
+        id: 'record',
+        name: 'Record fixtures',
+        description: 'Forwards to the server\'s MOCK_RECORD_PROVIDER and saves each reply as a fixture',
+        pricing: 'Billed by the recorded provider',
+        contextWindow: 131072,
+        vision: true
       }
     ]
   }
@@ -430,6 +723,7 @@ const defaultSettings: AppSettings = {
     together: 'changeMe',
     openai: '',
     anthropic: '',
+    custom: '',
     codesandbox: ''
   },
   selectedProvider: 'together',
@@ -438,7 +732,191 @@ const defaultSettings: AppSettings = {
   temperature: 0.7,
   topP: 0.9,
   systemPrompt: '',
-  theme: 'system'
+  promptTemplates: [],
+  theme: 'system',
+  connectionMode: 'direct',
+  proxyAccessToken: '',
+  structuredOutput: true,
+  agentMode: false,
+  maxAgentSteps: 6,
+  compareMode: false,
+  compareTargets: [],
+  thinkingBudget: 0,
+  autoFix: false,
+  maxAutoFixAttempts: 3,
+  responseCache: false,
+  dailySpendLimit: null,
+  monthlySpendLimit: null
+}
+
+export const NEW_CONVERSATION_TITLE = 'New conversation'
+const MAX_CONVERSATION_TITLE_LENGTH = 50
+// Older conversations beyond this are dropped to stay within localStorage limits
+const MAX_CONVERSATIONS = 100
+
+/**
+ * The first line of a message, cut to a title-sized length.
+ */
+export function titleFromMessage(content: string): string {
+  const line = content.trim().split('\n')[0].trim()
+  return line.length > MAX_CONVERSATION_TITLE_LENGTH
+    ? `${line.slice(0, MAX_CONVERSATION_TITLE_LENGTH).trim()}…`
+    : line
+}
+
+function createEmptyConversation(settings: AppSettings): Conversation {
+  const now = Date.now()
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    title: NEW_CONVERSATION_TITLE,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+    library3DID: settings.selectedLibrary,
+    modelUsed: settings.selectedModel,
+    providerUsed: settings.selectedProvider
+  }
+}
+
+/**
+ * Sets the active conversation's messages and writes them back to its saved
+ * copy, titling it from the first user message while it has no title yet.
+ */
+function withActiveMessages(
+  state: Pick<AppState, 'conversations' | 'activeConversationId'>,
+  messages: ChatMessage[],
+  context: Pick<Conversation, 'library3DID' | 'modelUsed' | 'providerUsed'> = {}
+): Pick<AppState, 'messages' | 'conversations'> {
+  return {
+    messages,
+    conversations: state.conversations.map(conversation => {
+      if (conversation.id !== state.activeConversationId) return conversation
+      const firstPrompt = messages.find(message => message.role === 'user' && message.content.trim())
+      return {
+        ...conversation,
+        ...context,
+        messages,
+        updatedAt: Date.now(),
+        title: conversation.title === NEW_CONVERSATION_TITLE && firstPrompt
+          ? titleFromMessage(firstPrompt.content)
+          : conversation.title
+      }
+    })
+  }
+}
+
+// Placeholder for the version on screen in MessageVersions.branches
+const LIVE_BRANCH: MessageBranch = { messages: [], code: '', codeFiles: [], codeEntryPath: null }
+
+/**
+ * Splits the messages at a top-level message: the tail is that message and
+ * everything after it, except replies in threads of earlier messages.
+ */
+function splitAtMessage(messages: ChatMessage[], messageId: string): { kept: ChatMessage[]; tail: ChatMessage[] } | undefined {
+  const index = messages.findIndex(message => message.id === messageId)
+  if (index === -1) return undefined
+  const earlierIds = messages.slice(0, index).map(message => message.id)
+  const kept: ChatMessage[] = []
+  const tail: ChatMessage[] = []
+  messages.forEach((message, i) => {
+    const inEarlierThread = !!message.threadParentId && earlierIds.indexOf(message.threadParentId) !== -1
+    if (i < index || inEarlierThread) {
+      kept.push(message)
+    } else {
+      tail.push(message)
+    }
+  })
+  return { kept, tail }
+}
+
+// The tail on screen as a branch to put away, with the playground as it is now
+function toBranch(state: AppState, tail: ChatMessage[]): MessageBranch {
+  const [head, ...rest] = tail
+  const { versions, ...stored } = head
+  return {
+    messages: [stored, ...rest],
+    code: state.currentCode,
+    codeFiles: state.codeFiles,
+    codeEntryPath: state.codeEntryPath
+  }
+}
+
+// The library and model a conversation last used, where they still exist
+function restoreConversationSettings(state: AppState, conversation: Conversation): AppSettings {
+  const settings = { ...state.settings }
+  if (conversation.library3DID && state.libraries.some(library => library.id === conversation.library3DID)) {
+    settings.selectedLibrary = conversation.library3DID
+  }
+  const provider = state.providers.find(p => p.id === conversation.providerUsed)
+  if (provider && provider.models.some(model => model.id === conversation.modelUsed)) {
+    settings.selectedProvider = provider.id
+    settings.selectedModel = conversation.modelUsed as string
+  }
+  return settings
+}
+
+// Keeps the active conversation and the most recently updated others
+function capConversations(conversations: Conversation[], activeId: string | null): Conversation[] {
+  if (conversations.length <= MAX_CONVERSATIONS) return conversations
+  const kept = conversations
+    .filter(conversation => conversation.id !== activeId)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_CONVERSATIONS - 1)
+    .map(conversation => conversation.id)
+  return conversations.filter(conversation => conversation.id === activeId || kept.indexOf(conversation.id) !== -1)
+}
+
+/**
+ * Curated models shipped with the app for a provider (empty for custom endpoints).
+ */
+export function getCuratedModels(providerId: string): AIModel[] {
+  return defaultProviders.find(provider => provider.id === providerId)?.models || []
+}
+
+// Applies fn to every attachment, in put-away branches too
+function mapAttachments(messages: ChatMessage[], fn: (attachment: ImageAttachment) => ImageAttachment): ChatMessage[] {
+  return messages.map(message => {
+    if (!message.attachments && !message.versions) return message
+    return {
+      ...message,
+      ...(message.attachments ? { attachments: message.attachments.map(fn) } : {}),
+      ...(message.versions
+        ? {
+            versions: {
+              ...message.versions,
+              branches: message.versions.branches.map(branch => ({ ...branch, messages: mapAttachments(branch.messages, fn) }))
+            }
+          }
+        : {})
+    }
+  })
+}
+
+/**
+ * localStorage that reports a full quota instead of throwing: persist saves
+ * inside set(), so a throw would abort the action that changed the state,
+ * such as a streaming update.
+ */
+function withQuotaGuard(storage: StateStorage): StateStorage {
+  return {
+    getItem: (name) => storage.getItem(name),
+    setItem: (name, value) => {
+      try {
+        return storage.setItem(name, value)
+      } catch (error) {
+        console.warn('Saving app state failed:', error)
+        toast.error('Browser storage is full, so recent changes are not saved. Delete old conversations to free space.', { id: 'storage-full' })
+      }
+    },
+    removeItem: (name) => storage.removeItem(name)
+  }
+}
+
+// Monthly caps need the current calendar month; older entries are dropped
+function pruneSpendLog(log: SpendEntry[]): SpendEntry[] {
+  const now = new Date()
+  const startOfPreviousMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1).getTime()
+  return log.filter(entry => entry.timestamp >= startOfPreviousMonth)
 }
 
 export const useAppStore = create<AppState>()(
@@ -451,19 +929,228 @@ export const useAppStore = create<AppState>()(
       // Chat state
       messages: [],
       isLoading: false,
-      addMessage: (message) => set((state) => ({
-        messages: [...state.messages, {
-          ...message,
-          id: Math.random().toString(36).substr(2, 9),
-          timestamp: Date.now()
-        }]
-      })),
+      addMessage: (message) => {
+        const id = Math.random().toString(36).substr(2, 9)
+        // The first message of a session starts a conversation to hold it
+        if (!get().activeConversationId) {
+          get().createConversation()
+        }
+        set((state) => {
+          const messages = [...state.messages, { ...message, id, timestamp: Date.now() }]
+          // Prompts record the library and model the conversation is continuing with
+          return message.role === 'user'
+            ? withActiveMessages(state, messages, {
+                library3DID: state.settings.selectedLibrary,
+                modelUsed: state.settings.selectedModel,
+                providerUsed: state.settings.selectedProvider
+              })
+            : withActiveMessages(state, messages)
+        })
+        return id
+      },
+      updateMessage: (id, updates) => set((state) => withActiveMessages(state, state.messages.map(message =>
+        message.id === id ? { ...message, ...updates } : message
+      ))),
+      // Removing a message takes its thread with it
+      removeMessage: (id) => set((state) => withActiveMessages(state, state.messages.filter(message =>
+        message.id !== id && message.threadParentId !== id
+      ))),
       setLoading: (loading) => set({ isLoading: loading }),
-      clearMessages: () => set({ messages: [] }),
+      clearMessages: () => set((state) => withActiveMessages(state, [])),
+      chooseComparisonReply: (messageId) => set((state) => {
+        const chosen = state.messages.find(message => message.id === messageId)
+        if (!chosen?.comparison || !chosen.provider || !chosen.model) return {}
+        const { groupId } = chosen.comparison
+        const messages = state.messages.map(message => message.comparison?.groupId === groupId
+          ? { ...message, comparison: { ...message.comparison, chosen: message.id === messageId } }
+          : message)
+        return {
+          ...withActiveMessages(state, messages, { modelUsed: chosen.model, providerUsed: chosen.provider }),
+          settings: { ...state.settings, selectedProvider: chosen.provider, selectedModel: chosen.model, compareMode: false }
+        }
+      }),
+
+      startBranch: (messageId, message) => {
+        const id = Math.random().toString(36).substr(2, 9)
+        set((state) => {
+          const split = splitAtMessage(state.messages, messageId)
+          if (!split) return {}
+          const versions = split.tail[0].versions || { active: 0, branches: [LIVE_BRANCH] }
+          const branches = versions.branches.map((branch, index) =>
+            index === versions.active ? toBranch(state, split.tail) : branch
+          )
+          const head: ChatMessage = {
+            ...message,
+            id,
+            timestamp: Date.now(),
+            versions: { active: branches.length, branches: [...branches, LIVE_BRANCH] }
+          }
+          return withActiveMessages(state, [...split.kept, head])
+        })
+        return id
+      },
+      switchBranch: (messageId, index) => set((state) => {
+        const split = splitAtMessage(state.messages, messageId)
+        const versions = split?.tail[0].versions
+        const target = versions?.branches[index]
+        if (!split || !versions || !target || index === versions.active) return {}
+
+        const branches = versions.branches.map((branch, i) =>
+          i === versions.active ? toBranch(state, split.tail) : i === index ? LIVE_BRANCH : branch
+        )
+        const [head, ...rest] = target.messages
+        return {
+          ...withActiveMessages(state, [...split.kept, { ...head, versions: { active: index, branches } }, ...rest]),
+          currentCode: target.code,
+          codeFiles: target.codeFiles,
+          codeEntryPath: target.codeEntryPath,
+          // A review proposed by the branch being left no longer applies
+          pendingEdit: null
+        }
+      }),
+
+      // Conversations
+      conversations: [],
+      activeConversationId: null,
+      createConversation: () => {
+        const state = get()
+        const active = state.conversations.find(conversation => conversation.id === state.activeConversationId)
+        if (active && active.messages.length === 0) return active.id
+
+        const conversation = createEmptyConversation(state.settings)
+        set({
+          conversations: capConversations([conversation, ...state.conversations], conversation.id),
+          activeConversationId: conversation.id,
+          messages: []
+        })
+        return conversation.id
+      },
+      switchConversation: (id) => set((state) => {
+        const conversation = state.conversations.find(c => c.id === id)
+        if (!conversation || id === state.activeConversationId) return {}
+        return {
+          // An untouched new conversation is not worth keeping once the user leaves it
+          conversations: state.conversations.filter(c => c.id !== state.activeConversationId || c.messages.length > 0),
+          activeConversationId: id,
+          messages: conversation.messages,
+          settings: restoreConversationSettings(state, conversation)
+        }
+      }),
+      renameConversation: (id, title) => set((state) => ({
+        conversations: state.conversations.map(conversation =>
+          conversation.id === id && title.trim() ? { ...conversation, title: title.trim() } : conversation
+        )
+      })),
+      deleteConversation: (id) => set((state) => {
+        const conversations = state.conversations.filter(conversation => conversation.id !== id)
+        if (id !== state.activeConversationId) {
+          return { conversations }
+        }
+        // Continue in the most recently updated remaining conversation
+        const next = conversations.slice().sort((a, b) => b.updatedAt - a.updatedAt)[0]
+        return next
+          ? { conversations, activeConversationId: next.id, messages: next.messages, settings: restoreConversationSettings(state, next) }
+          : { conversations, activeConversationId: null, messages: [] }
+      }),
+      focusedMessageId: null,
+      focusMessage: (conversationId, messageId) => {
+        get().switchConversation(conversationId)
+        set({ focusedMessageId: messageId, currentView: 'chat' })
+      },
+      clearFocusedMessage: () => set({ focusedMessageId: null }),
+      restoreAttachmentData: (images) => set((state) => {
+        const conversations = state.conversations.map(conversation => ({
+          ...conversation,
+          messages: mapAttachments(conversation.messages, attachment =>
+            !attachment.data && images[attachment.id] ? { ...attachment, data: images[attachment.id] } : attachment
+          )
+        }))
+        const active = conversations.find(conversation => conversation.id === state.activeConversationId)
+        return { conversations, messages: active ? active.messages : state.messages }
+      }),
+      importConversation: (imported, project) => set((state) => {
+        // A fresh id, so importing the same file twice keeps both copies
+        const conversation: Conversation = { ...imported, id: Math.random().toString(36).substr(2, 9), updatedAt: Date.now() }
+        return {
+          conversations: capConversations([
+            conversation,
+            ...state.conversations.filter(c => c.id !== state.activeConversationId || c.messages.length > 0)
+          ], conversation.id),
+          activeConversationId: conversation.id,
+          messages: conversation.messages,
+          settings: restoreConversationSettings(state, conversation),
+          currentCode: project.code,
+          codeFiles: project.codeFiles,
+          codeEntryPath: project.codeEntryPath,
+          pendingEdit: null
+        }
+      }),
+      
+      // Spend tracking
+      spendLog: [],
+      recordSpend: (entry) => set((state) => ({
+        spendLog: [...pruneSpendLog(state.spendLog), entry]
+      })),
       
       // Code state
       currentCode: '',
-      setCurrentCode: (code) => set({ currentCode: code }),
+      setCurrentCode: (code) => set((state) => ({
+        currentCode: code,
+        // Keep the entry file of a multi-file set in step with the editor
+        codeFiles: state.codeEntryPath
+          ? state.codeFiles.map(file => file.path === state.codeEntryPath ? { ...file, content: code } : file)
+          : state.codeFiles
+      })),
+      codeFiles: [],
+      codeEntryPath: null,
+      setCodeFiles: (files, entryPath) => set(() => {
+        if (files.length === 0) {
+          return { codeFiles: [], codeEntryPath: null }
+        }
+        const entry = files.find(file => file.path === entryPath) || files[files.length - 1]
+        return { codeFiles: files, codeEntryPath: entry.path, currentCode: entry.content }
+      }),
+      updateCodeFile: (path, content) => set((state) => ({
+        codeFiles: state.codeFiles.map(file => file.path === path ? { ...file, content } : file),
+        ...(path === state.codeEntryPath ? { currentCode: content } : {})
+      })),
+
+      // Code review
+      pendingEdit: null,
+      proposeCodeEdit: (edit) => set({
+        pendingEdit: {
+          ...edit,
+          decisions: edit.hunks.reduce<Record<string, HunkDecision>>((decisions, hunk) => {
+            decisions[hunk.id] = hunk.error ? 'rejected' : 'pending'
+            return decisions
+          }, {})
+        }
+      }),
+      setHunkDecision: (id, decision) => set((state) => ({
+        pendingEdit: state.pendingEdit
+          ? { ...state.pendingEdit, decisions: { ...state.pendingEdit.decisions, [id]: decision } }
+          : null
+      })),
+      setAllHunkDecisions: (decision) => set((state) => {
+        if (!state.pendingEdit) return {}
+        const decisions = { ...state.pendingEdit.decisions }
+        state.pendingEdit.hunks.forEach(hunk => {
+          if (!hunk.error) decisions[hunk.id] = decision
+        })
+        return { pendingEdit: { ...state.pendingEdit, decisions } }
+      }),
+      clearPendingEdit: () => set({ pendingEdit: null }),
+
+      // Scene runtime state
+      sceneErrors: [],
+      reportSceneError: (error) => set((state) => ({
+        sceneErrors: [...state.sceneErrors, { ...error, timestamp: Date.now() }]
+      })),
+      clearSceneErrors: () => set({ sceneErrors: [] }),
+      sceneRunRequest: 0,
+      requestSceneRun: () => set((state) => ({ sceneRunRequest: state.sceneRunRequest + 1 })),
+      autoFixController: null,
+      setAutoFixController: (controller) => set({ autoFixController: controller }),
       
       // Settings state
       settings: defaultSettings,
@@ -482,6 +1169,11 @@ export const useAppStore = create<AppState>()(
       // AI Provider state
       providers: defaultProviders,
       setProviders: (providers) => set({ providers }),
+      updateProvider: (id, updates) => set((state) => ({
+        providers: state.providers.map(provider =>
+          provider.id === id ? { ...provider, ...updates } : provider
+        )
+      })),
       getCurrentProvider: () => {
         const { providers, settings } = get()
         return providers.find(provider => provider.id === settings.selectedProvider)
@@ -494,10 +1186,97 @@ export const useAppStore = create<AppState>()(
     }),
     {
       name: 'xrai-assistant-storage',
+      storage: createJSONStorage(() => withQuotaGuard(localStorage)),
+      version: 5,
+      migrate: (persistedState: any, version) => {
+        if (version < 1 && persistedState) {
+          // v1: providers declare an adapter and CodeSandbox is no longer listed as a chat provider
+          persistedState.providers = defaultProviders
+          if (persistedState.settings?.selectedProvider === 'codesandbox') {
+            persistedState.settings = {
+              ...persistedState.settings,
+              selectedProvider: defaultSettings.selectedProvider,
+              selectedModel: defaultSettings.selectedModel
+            }
+          }
+        }
+        if (version < 2 && persistedState?.providers) {
+          // v2: adds the custom OpenAI-compatible endpoint provider
+          const customProvider = defaultProviders.find(provider => provider.id === 'custom')
+          if (customProvider && !persistedState.providers.some((provider: AIProvider) => provider.id === 'custom')) {
+            persistedState.providers = [...persistedState.providers, customProvider]
+          }
+        }
+        if (version < 3 && persistedState?.providers) {
+          // v3: refresh curated model lists (retired Claude 3.x IDs) and fix selections that pointed at them
+          persistedState.providers = persistedState.providers.map((provider: AIProvider) => {
+            const curated = getCuratedModels(provider.id)
+            return curated.length > 0 ? { ...provider, models: curated } : provider
+          })
+          const selected = persistedState.providers.find((provider: AIProvider) => provider.id === persistedState.settings?.selectedProvider)
+          if (selected && !selected.models.some((model: AIModel) => model.id === persistedState.settings.selectedModel)) {
+            persistedState.settings = { ...persistedState.settings, selectedModel: selected.models[0]?.id || '' }
+          }
+        }
+        if (version < 4 && persistedState?.providers) {
+          // v4: adds the offline mock provider
+          const mockProvider = defaultProviders.find(provider => provider.id === 'mock')
+          if (mockProvider && !persistedState.providers.some((provider: AIProvider) => provider.id === 'mock')) {
+            persistedState.providers = [...persistedState.providers, mockProvider]
+          }
+        }
+        if (version < 5 && persistedState) {
+          // v5: the single chat becomes the first saved conversation
+          const messages: ChatMessage[] = persistedState.messages || []
+          const firstPrompt = messages.find(message => message.role === 'user' && message.content.trim())
+          if (messages.length > 0) {
+            const conversation: Conversation = {
+              ...createEmptyConversation({ ...defaultSettings, ...persistedState.settings }),
+              title: firstPrompt ? titleFromMessage(firstPrompt.content) : NEW_CONVERSATION_TITLE,
+              messages,
+              createdAt: messages[0].timestamp,
+              updatedAt: messages[messages.length - 1].timestamp
+            }
+            persistedState.conversations = [conversation]
+            persistedState.activeConversationId = conversation.id
+          }
+          delete persistedState.messages
+        }
+        return persistedState
+      },
+      // Settings added in later versions get their defaults, and curated model metadata
+      // (pricing, context windows) always comes from the code while discovered models persist
+      merge: (persistedState, currentState) => {
+        const persisted = (persistedState || {}) as Partial<AppState>
+        const active = persisted.conversations?.find(conversation => conversation.id === persisted.activeConversationId)
+        return {
+          ...currentState,
+          ...persisted,
+          // Only the conversations are stored; the active one's messages are the working copy
+          messages: active ? active.messages : [],
+          settings: { ...currentState.settings, ...persisted.settings },
+          providers: (persisted.providers || currentState.providers).map(provider => {
+            const curated = getCuratedModels(provider.id)
+            if (curated.length === 0) return provider
+            const discovered = provider.models.filter(model =>
+              model.source === 'discovered' && !curated.some(c => c.id === model.id)
+            )
+            return { ...provider, models: [...curated, ...discovered] }
+          })
+        }
+      },
       partialize: (state) => ({
         settings: state.settings,
-        messages: state.messages,
+        // Image data lives in IndexedDB (see attachment-store)
+        conversations: state.conversations.map(conversation => ({
+          ...conversation,
+          messages: mapAttachments(conversation.messages, attachment => attachment.data ? { ...attachment, data: '' } : attachment)
+        })),
+        activeConversationId: state.activeConversationId,
+        spendLog: state.spendLog,
         currentCode: state.currentCode,
+        codeFiles: state.codeFiles,
+        codeEntryPath: state.codeEntryPath,
         libraries: state.libraries,
         providers: state.providers
       })